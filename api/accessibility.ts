@@ -0,0 +1,80 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { countEventsBy, fetchEvents, resolveEventSlug } from '../src/lib/repository';
+import {
+  ACCESSIBILITY_FEATURES,
+  AccessibilityFeatureLabels,
+  accessibilitySummary,
+  SEATING,
+  SeatingLabels,
+  VENUE_SURFACES,
+  VenueSurfaceLabels,
+} from '../src/lib/accessibility';
+
+/**
+ * Accessibility (see src/lib/accessibility.ts).
+ *
+ * /api/accessibility             Each feature, seating and surface with the
+ *                                events known to have it
+ * /api/accessibility?slug=xxx    One event's accessibility summary
+ */
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  res.setHeader('Access-Control-Allow-Origin', '*');
+  res.setHeader('Cache-Control', 's-maxage=3600, stale-while-revalidate');
+
+  if (req.method !== 'GET') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  try {
+    const { slug } = req.query;
+    const events = await fetchEvents();
+
+    // One event; ids and retired slugs redirect to the current slug
+    if (slug && typeof slug === 'string') {
+      const resolved = resolveEventSlug(events, slug);
+      if (!resolved) {
+        return res.status(404).json({ error: 'Event not found' });
+      }
+      if (!resolved.canonical) {
+        return res.redirect(301, `/api/accessibility?slug=${encodeURIComponent(resolved.event.slug)}`);
+      }
+      const { event } = resolved;
+
+      return res.status(200).json({
+        event: { id: event.id, name: event.name, slug: event.slug, venue: event.venue },
+        accessibility: accessibilitySummary(event.accessibility),
+      });
+    }
+
+    // An event counts for a feature only when it is known to have it
+    const features = countEventsBy(events, e =>
+      ACCESSIBILITY_FEATURES.filter(f => e.accessibility.features[f])
+    );
+    const seating = countEventsBy(events, e => (e.accessibility.seating ? [e.accessibility.seating] : []));
+    const surfaces = countEventsBy(events, e => (e.accessibility.surface ? [e.accessibility.surface] : []));
+
+    const withCounts = <T extends string>(values: readonly T[], labels: Record<T, string>, counts: typeof features) =>
+      values.map(value => ({
+        value,
+        label: labels[value],
+        event_count: counts.get(value)?.event_count || 0,
+        upcoming_count: counts.get(value)?.upcoming_count || 0,
+      }));
+
+    return res.status(200).json({
+      data: {
+        features: withCounts(ACCESSIBILITY_FEATURES, AccessibilityFeatureLabels, features),
+        seating: withCounts(SEATING, SeatingLabels, seating),
+        surfaces: withCounts(VENUE_SURFACES, VenueSurfaceLabels, surfaces),
+      },
+      meta: {
+        total_events: events.length,
+        verified: events.filter(e => e.accessibility.verified_at).length,
+      },
+    });
+  } catch (error) {
+    console.error('Error fetching accessibility:', error);
+    return res.status(500).json({ error: 'Failed to fetch accessibility' });
+  }
+}
@@ -0,0 +1,46 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { fetchEvents } from '../../src/lib/repository';
+import { buildCalendarView, countByMonth, parseTimezone } from '../../src/lib/calendar';
+
+/**
+ * Year view: every event on during the year, by day and with counts per
+ * month (see src/lib/calendar.ts).
+ */
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  res.setHeader('Access-Control-Allow-Origin', '*');
+  res.setHeader('Cache-Control', 's-maxage=3600, stale-while-revalidate');
+
+  if (req.method !== 'GET') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  try {
+    const y = parseInt(req.query.year as string, 10);
+    if (isNaN(y) || y < 1900 || y > 2100) {
+      return res.status(400).json({ error: 'Invalid year' });
+    }
+
+    const tz = parseTimezone(req.query.tz);
+    if ('error' in tz) {
+      return res.status(400).json({ error: tz.error });
+    }
+
+    const view = buildCalendarView(await fetchEvents(), `${y}-01-01`, `${y}-12-31`, tz.timezone);
+
+    return res.status(200).json({
+      year: y,
+      timezone: view.timezone,
+      events: view.events,
+      events_by_date: view.events_by_date,
+      ...(view.day_bounds ? { day_bounds: view.day_bounds } : {}),
+      months: countByMonth(view),
+      meta: {
+        total: view.events.length,
+      },
+    });
+  } catch (error) {
+    console.error('Calendar error:', error);
+    return res.status(500).json({ error: 'Failed to fetch calendar' });
+  }
+}
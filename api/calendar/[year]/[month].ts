@@ -1,5 +1,7 @@
 import type { VercelRequest, VercelResponse } from '@vercel/node';
-import { fetchEvents, getEventsByMonth } from '../../../src/sheets/client';
+import { fetchEvents } from '../../../src/lib/repository';
+import { getExpectedEventsByMonth } from '../../../src/lib/projection';
+import { buildCalendarView, daysInMonth, parseTimezone } from '../../../src/lib/calendar';
 
 export default async function handler(req: VercelRequest, res: VercelResponse) {
   res.setHeader('Access-Control-Allow-Origin', '*');
@@ -10,33 +12,38 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
   }
 
   try {
-    const { year, month } = req.query;
+    const { year, month, expected } = req.query;
 
     const y = parseInt(year as string, 10);
     const m = parseInt(month as string, 10);
 
-    if (isNaN(y) || isNaN(m) || m < 1 || m > 12) {
+    if (isNaN(y) || y < 1900 || y > 2100 || isNaN(m) || m < 1 || m > 12) {
       return res.status(400).json({ error: 'Invalid year or month' });
     }
 
-    const events = await fetchEvents();
-    const monthEvents = getEventsByMonth(events, y, m);
-
-    // Group by date
-    const byDate: Record<string, typeof monthEvents> = {};
-    for (const event of monthEvents) {
-      const date = event.start_date;
-      if (!byDate[date]) byDate[date] = [];
-      byDate[date].push(event);
+    const tz = parseTimezone(req.query.tz);
+    if ('error' in tz) {
+      return res.status(400).json({ error: tz.error });
     }
 
+    const monthStr = `${y}-${String(m).padStart(2, '0')}`;
+    const events = await fetchEvents();
+    // Every event on during the month, listed on each of its days
+    const view = buildCalendarView(events, `${monthStr}-01`, `${monthStr}-${daysInMonth(y, m)}`, tz.timezone);
+    // Recurring events without dates for this year, at their likely window
+    const expectedEvents = expected === 'false' ? [] : getExpectedEventsByMonth(events, y, m);
+
     return res.status(200).json({
       year: y,
       month: m,
-      events: monthEvents,
-      events_by_date: byDate,
+      timezone: view.timezone,
+      events: view.events,
+      events_by_date: view.events_by_date,
+      ...(view.day_bounds ? { day_bounds: view.day_bounds } : {}),
+      expected: expectedEvents,
       meta: {
-        total: monthEvents.length,
+        total: view.events.length,
+        expected_total: expectedEvents.length,
       },
     });
   } catch (error) {
@@ -0,0 +1,53 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { fetchEvents } from '../../src/lib/repository';
+import { buildCalendarView, daysInclusive, MAX_RANGE_DAYS, parseTimezone } from '../../src/lib/calendar';
+import { isIsoDate } from '../../src/lib/validation';
+
+/**
+ * Custom range view: /api/calendar/range?from=2026-06-28&to=2026-07-05
+ * (see src/lib/calendar.ts).
+ */
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  res.setHeader('Access-Control-Allow-Origin', '*');
+  res.setHeader('Cache-Control', 's-maxage=3600, stale-while-revalidate');
+
+  if (req.method !== 'GET') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  try {
+    const { from, to } = req.query;
+    if (!isIsoDate(from) || !isIsoDate(to)) {
+      return res.status(400).json({ error: 'from and to are both required (YYYY-MM-DD)' });
+    }
+    if (to < from) {
+      return res.status(400).json({ error: 'to is before from' });
+    }
+    if (daysInclusive(from, to) > MAX_RANGE_DAYS) {
+      return res.status(400).json({ error: `The range is limited to ${MAX_RANGE_DAYS} days` });
+    }
+
+    const tz = parseTimezone(req.query.tz);
+    if ('error' in tz) {
+      return res.status(400).json({ error: tz.error });
+    }
+
+    const view = buildCalendarView(await fetchEvents(), from, to, tz.timezone);
+
+    return res.status(200).json({
+      from: view.from,
+      to: view.to,
+      timezone: view.timezone,
+      events: view.events,
+      events_by_date: view.events_by_date,
+      ...(view.day_bounds ? { day_bounds: view.day_bounds } : {}),
+      meta: {
+        total: view.events.length,
+      },
+    });
+  } catch (error) {
+    console.error('Calendar error:', error);
+    return res.status(500).json({ error: 'Failed to fetch calendar' });
+  }
+}
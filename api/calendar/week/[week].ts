@@ -0,0 +1,48 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { fetchEvents } from '../../../src/lib/repository';
+import { buildCalendarView, isoWeekRange, parseTimezone } from '../../../src/lib/calendar';
+
+/**
+ * ISO week view, Monday to Sunday: /api/calendar/week/2026-W25
+ * (see src/lib/calendar.ts).
+ */
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  res.setHeader('Access-Control-Allow-Origin', '*');
+  res.setHeader('Cache-Control', 's-maxage=3600, stale-while-revalidate');
+
+  if (req.method !== 'GET') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  try {
+    const week = String(req.query.week || '');
+    const range = isoWeekRange(week);
+    if (!range) {
+      return res.status(400).json({ error: `Invalid week "${week}". Use an ISO week such as 2026-W25` });
+    }
+
+    const tz = parseTimezone(req.query.tz);
+    if ('error' in tz) {
+      return res.status(400).json({ error: tz.error });
+    }
+
+    const view = buildCalendarView(await fetchEvents(), range.from, range.to, tz.timezone);
+
+    return res.status(200).json({
+      week,
+      from: view.from,
+      to: view.to,
+      timezone: view.timezone,
+      events: view.events,
+      events_by_date: view.events_by_date,
+      ...(view.day_bounds ? { day_bounds: view.day_bounds } : {}),
+      meta: {
+        total: view.events.length,
+      },
+    });
+  } catch (error) {
+    console.error('Calendar error:', error);
+    return res.status(500).json({ error: 'Failed to fetch calendar' });
+  }
+}
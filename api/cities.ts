@@ -1,5 +1,20 @@
 import type { VercelRequest, VercelResponse } from '@vercel/node';
-import { fetchEvents, fetchCities, getUpcomingEvents } from '../src/sheets/client';
+import { fetchEvents, getUpcomingEvents } from '../src/lib/repository';
+import { getPlace } from '../src/lib/gazetteer';
+
+// Names in other scripts and facts about the city, from the gazetteer
+function placeFields(slug: string) {
+  const place = getPlace(slug);
+  if (!place) return {};
+  return {
+    name_fr: place.name_fr,
+    name_ar: place.name_ar,
+    name_tzm: place.name_tzm,
+    province: place.province,
+    population: place.population,
+    geo_location: { lat: place.lat, lng: place.lng },
+  };
+}
 
 export default async function handler(req: VercelRequest, res: VercelResponse) {
   res.setHeader('Access-Control-Allow-Origin', '*');
@@ -29,6 +44,7 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
           slug: cityEvents[0].city_slug,
           region: cityEvents[0].region,
           region_slug: cityEvents[0].region_slug,
+          ...placeFields(slug),
         },
         events: upcoming,
         meta: {
@@ -73,7 +89,8 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
     }
 
     const cities = Array.from(cityMap.values())
-      .sort((a, b) => b.upcoming_count - a.upcoming_count);
+      .sort((a, b) => b.upcoming_count - a.upcoming_count)
+      .map(city => ({ ...city, ...placeFields(city.slug) }));
 
     return res.status(200).json({
       data: cities,
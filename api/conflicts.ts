@@ -0,0 +1,91 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { fetchEvents } from '../src/lib/repository';
+import { todayInMorocco } from '../src/lib/dates';
+import { parseSearchQuery, runSearch } from '../src/lib/search';
+import { buildConflictReport, CLASH_SCOPES, type ClashScope } from '../src/lib/conflicts';
+import { isIsoDate } from '../src/lib/validation';
+
+/**
+ * Date clashes by city, region and tradition, and quiet weeks
+ * (see src/lib/conflicts.ts).
+ * A year (?year=2026, default this year) or a window (?from=&to=, up to a
+ * year). Search filters (city, region, genre, ...) narrow the events compared.
+ */
+
+const MAX_WINDOW_DAYS = 366;
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  res.setHeader('Access-Control-Allow-Origin', '*');
+  res.setHeader('Cache-Control', 's-maxage=3600, stale-while-revalidate');
+
+  if (req.method !== 'GET') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  try {
+    const { year, from, to, scope, min_weight } = req.query;
+
+    let start: string;
+    let end: string;
+    if (from || to) {
+      if (!isIsoDate(from) || !isIsoDate(to)) {
+        return res.status(400).json({ error: 'from and to are both required (YYYY-MM-DD)' });
+      }
+      if (to < from) {
+        return res.status(400).json({ error: 'to is before from' });
+      }
+      if ((Date.parse(to) - Date.parse(from)) / 86400000 >= MAX_WINDOW_DAYS) {
+        return res.status(400).json({ error: `The window is limited to ${MAX_WINDOW_DAYS} days` });
+      }
+      start = from;
+      end = to;
+    } else {
+      const y = year ? parseInt(year as string, 10) : parseInt(todayInMorocco().slice(0, 4), 10);
+      if (isNaN(y) || y < 1900 || y > 2100) {
+        return res.status(400).json({ error: 'Invalid year' });
+      }
+      start = `${y}-01-01`;
+      end = `${y}-12-31`;
+    }
+
+    const scopes = typeof scope === 'string' && scope
+      ? (scope.split(',').map(s => s.trim()) as ClashScope[])
+      : CLASH_SCOPES;
+    const unknown = scopes.filter(s => !CLASH_SCOPES.includes(s));
+    if (unknown.length > 0) {
+      return res.status(400).json({ error: `Invalid scope "${unknown[0]}". Use one of: ${CLASH_SCOPES.join(', ')}` });
+    }
+
+    const minWeight = min_weight ? Number(min_weight) : 0;
+    if (!Number.isFinite(minWeight) || minWeight < 0) {
+      return res.status(400).json({ error: 'Invalid min_weight' });
+    }
+
+    // The window is the report's: lunar events are projected before dates are compared
+    const query = { ...parseSearchQuery(req.query), from: undefined, to: undefined };
+    const events = runSearch(await fetchEvents({ statuses: query.facets.status }), query);
+
+    const report = buildConflictReport(events, start, end, { scopes, minWeight });
+
+    return res.status(200).json({
+      data: {
+        clashes: report.clashes,
+        quiet_weeks: report.quiet_weeks,
+        clash_dates: report.clash_dates,
+      },
+      meta: {
+        from: report.from,
+        to: report.to,
+        events: report.events,
+        clashes: report.clashes.length,
+        quiet_weeks: report.quiet_weeks.length,
+        by_scope: Object.fromEntries(
+          scopes.map(s => [s, report.clashes.filter(c => c.scope === s).length])
+        ),
+      },
+    });
+  } catch (error) {
+    console.error('Conflicts error:', error);
+    return res.status(500).json({ error: 'Failed to analyse conflicts' });
+  }
+}
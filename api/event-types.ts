@@ -0,0 +1,55 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { countEventsBy, fetchEvents } from '../src/lib/repository';
+import { EVENT_TYPES } from '../src/lib/classification';
+import {
+  CulturalWeightDescriptions,
+  EventTypeDescriptions,
+  EventTypeLabels,
+  MinimumWeightByEventType,
+} from '../src/lib/taxonomy';
+
+/**
+ * Event types (festival, moussem, lila, ...) with event counts. Types are
+ * derived from each record's category and title (see
+ * src/lib/classification.ts), so every type is listed, used or not.
+ */
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  res.setHeader('Access-Control-Allow-Origin', '*');
+  res.setHeader('Cache-Control', 's-maxage=3600, stale-while-revalidate');
+
+  if (req.method !== 'GET') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  try {
+    const events = await fetchEvents();
+    const counts = countEventsBy(events, e => [e.event_type]);
+
+    const types = EVENT_TYPES
+      .map(type => {
+        const minimum = MinimumWeightByEventType[type];
+        return {
+          type,
+          label: EventTypeLabels[type],
+          description: EventTypeDescriptions[type],
+          minimum_weight: minimum
+            ? { value: minimum, description: CulturalWeightDescriptions[minimum] }
+            : null,
+          event_count: counts.get(type)?.event_count || 0,
+          upcoming_count: counts.get(type)?.upcoming_count || 0,
+        };
+      })
+      .sort((a, b) => b.event_count - a.event_count);
+
+    return res.status(200).json({
+      data: types,
+      meta: {
+        total: types.length,
+      },
+    });
+  } catch (error) {
+    console.error('Error fetching event types:', error);
+    return res.status(500).json({ error: 'Failed to fetch event types' });
+  }
+}
@@ -1,8 +1,33 @@
 import type { VercelRequest, VercelResponse } from "@vercel/node";
 import {
   fetchEvents,
+  getEventsByTradition,
+  getHappeningEvents,
   getUpcomingEvents,
-} from "../src/sheets/client";
+  localizeEvent,
+  resolveEventSlug,
+  withPhase,
+} from "../src/lib/repository";
+import { resolvePlace } from "../src/lib/gazetteer";
+import {
+  buildLinkHeader,
+  paginate,
+  parseListQuery,
+  sortEvents,
+} from "../src/lib/pagination";
+import { applyGeoQuery, parseGeoQuery } from "../src/lib/geo-search";
+import { parseHappening } from "../src/lib/dates";
+import { applyPriceQuery, parsePriceQuery, withPrice } from "../src/lib/pricing";
+import {
+  ACCESSIBILITY_FACETS,
+  applyFacetSelection,
+  checkFacetSelection,
+  parseFacetSelection,
+} from "../src/lib/facets";
+import { applyAccessibilityQuery, parseAccessibilityQuery } from "../src/lib/accessibility";
+import { EVENT_STATUSES, isEventStatus } from "../src/lib/lifecycle";
+import { EVENT_CATEGORIES, EVENT_TYPES, isEventType } from "../src/lib/classification";
+import { MUSIC_TRADITIONS } from "../src/lib/taxonomy";
 
 export default async function handler(
   req: VercelRequest,
@@ -17,22 +42,90 @@ export default async function handler(
   }
 
   try {
-    const { city, genre, type, status, upcoming, slug } = req.query;
+    const { city, genre, tradition, type, status, category, upcoming, slug } =
+      req.query;
 
-    let events = await fetchEvents();
+    // Tentative, dormant and archived events only when status= names them
+    let events = await fetchEvents({ statuses: typeof status === "string" ? [status] : [] });
+
+    const price = parsePriceQuery(req.query);
+    if ("error" in price) {
+      return res.status(400).json({ error: price.error });
+    }
 
-    // Single event by slug or id
+    // Single event by slug; ids and retired slugs redirect to the current slug
     if (slug && typeof slug === "string") {
-      const event = events.find((e) => e.slug === slug || e.id === slug);
-      if (!event) {
+      const resolved = resolveEventSlug(events, slug);
+      if (!resolved) {
         return res.status(404).json({ error: "Event not found" });
       }
-      return res.status(200).json({ data: event });
+      if (!resolved.canonical) {
+        return res.redirect(
+          301,
+          `/api/events?slug=${encodeURIComponent(resolved.event.slug)}`
+        );
+      }
+      return res.status(200).json({
+        data: withPrice(withPhase(resolved.event), price.query.currency),
+      });
+    }
+
+    const geo = parseGeoQuery(req.query);
+    if ("error" in geo) {
+      return res.status(400).json({ error: geo.error });
+    }
+
+    const happening = parseHappening(req.query.happening);
+    if ("error" in happening) {
+      return res.status(400).json({ error: happening.error });
+    }
+
+    if (tradition && !(typeof tradition === "string" && MUSIC_TRADITIONS[tradition])) {
+      return res.status(400).json({
+        error: `Invalid tradition "${tradition}". Use one of: ${Object.keys(MUSIC_TRADITIONS).join(", ")}`,
+      });
+    }
+    if (status && !isEventStatus(status)) {
+      return res.status(400).json({
+        error: `Invalid status "${status}". Use one of: ${EVENT_STATUSES.join(", ")}`,
+      });
+    }
+    if (type && !isEventType(type)) {
+      return res.status(400).json({
+        error: `Invalid type "${type}". Use one of: ${EVENT_TYPES.join(", ")}`,
+      });
+    }
+    if (category && !(typeof category === "string" && EVENT_CATEGORIES.includes(category))) {
+      return res.status(400).json({
+        error: `Invalid category "${category}". Use one of: ${EVENT_CATEGORIES.join(", ")}`,
+      });
     }
 
-    // Filter by city
+    // accessibility=step_free,quiet_zone (all of them), seating=, surface=
+    const access = parseFacetSelection(req.query, ACCESSIBILITY_FACETS);
+    const invalid = checkFacetSelection(access, ACCESSIBILITY_FACETS);
+    if (invalid) {
+      return res.status(400).json({ error: invalid });
+    }
+    const verified = parseAccessibilityQuery(req.query);
+    if ("error" in verified) {
+      return res.status(400).json({ error: verified.error });
+    }
+
+    const list = parseListQuery(req.query, "date", [
+      ...Object.keys(events[0] || {}),
+      "phase",
+      "price",
+      ...(geo.query.near ? ["distance_km"] : []),
+    ]);
+    if ("error" in list) {
+      return res.status(400).json({ error: list.error });
+    }
+
+    // Filter by city, by any of its names ("fez" is fes)
     if (city && typeof city === "string") {
-      events = events.filter((e) => e.city_slug === city);
+      const citySlug = resolvePlace(city)?.slug || city;
+      events = events.filter((e) => e.city_slug === citySlug);
     }
 
     // Filter by genre/tag
@@ -43,32 +136,56 @@ export default async function handler(
       );
     }
 
+    // Filter by tradition (MUSIC_TRADITIONS id, tagged from tags, text and artists)
+    if (tradition && typeof tradition === "string") {
+      events = getEventsByTradition(events, tradition);
+    }
+
     // Filter by status
     if (status && typeof status === "string") {
       events = events.filter((e) => e.status === status);
     }
 
-    // Filter by event type
+    // Filter by event type (festival, moussem, ...)
     if (type && typeof type === "string") {
       events = events.filter((e) => e.event_type === type);
     }
 
+    // Filter by source category (music, heritage, ...)
+    if (category && typeof category === "string") {
+      events = events.filter((e) => e.category === category);
+    }
+
     // Filter to upcoming only
     if (upcoming === "true" || upcoming === "1") {
       events = getUpcomingEvents(events);
     }
 
-    // Sort: pinned first, then by date
-    events.sort((a, b) => {
-      if (a.is_pinned && !b.is_pinned) return -1;
-      if (!a.is_pinned && b.is_pinned) return 1;
-      return a.start_date.localeCompare(b.start_date);
-    });
+    // On now, today or this weekend, in Morocco's time zone
+    if (happening.happening) {
+      events = getHappeningEvents(events, happening.happening);
+    }
+
+    // Accessibility features, seating and surface, and how recently checked
+    events = applyFacetSelection(events, ACCESSIBILITY_FACETS, access);
+    events = applyAccessibilityQuery(events, verified.query);
+
+    // Free or paid, and the cheapest ticket within price_max (in currency)
+    events = applyPriceQuery(events, price.query);
+
+    // Near a point, within a radius or inside a bounding box
+    const located = applyGeoQuery(events, geo.query);
+
+    // Sort by list.query.sort: pinned first, then by date unless ?sort= says otherwise
+    const response = paginate(
+      sortEvents(located, list.query.sort).map((e) =>
+        withPrice(withPhase(localizeEvent(e, list.query.lang)), price.query.currency)
+      ),
+      list.query
+    );
+    res.setHeader("Link", buildLinkHeader(req.url || "/api/events", response.meta));
 
-    return res.status(200).json({
-      data: events,
-      meta: { total: events.length },
-    });
+    return res.status(200).json(response);
   } catch (error) {
     console.error("Error:", error);
     return res.status(500).json({ error: "Failed to fetch events" });
@@ -1,5 +1,8 @@
 import type { VercelRequest, VercelResponse } from '@vercel/node';
-import { fetchEvents, getUpcomingEvents } from '../src/sheets/client';
+import { fetchEvents, getHappeningEvents, getUpcomingEvents, localizeEvent, withPhase } from '../src/lib/repository';
+import { buildLinkHeader, paginate, parseListQuery, sortEvents } from '../src/lib/pagination';
+import { parseHappening } from '../src/lib/dates';
+import { applyPriceQuery, parsePriceQuery, withPrice } from '../src/lib/pricing';
 
 export default async function handler(req: VercelRequest, res: VercelResponse) {
   res.setHeader('Access-Control-Allow-Origin', '*');
@@ -12,7 +15,23 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
   try {
     const events = await fetchEvents();
 
-    // Filter to festivals only
+    const happening = parseHappening(req.query.happening);
+    if ('error' in happening) {
+      return res.status(400).json({ error: happening.error });
+    }
+
+    const price = parsePriceQuery(req.query);
+    if ('error' in price) {
+      return res.status(400).json({ error: price.error });
+    }
+
+    const list = parseListQuery(req.query, 'significance', [...Object.keys(events[0] || {}), 'phase', 'price']);
+    if ('error' in list) {
+      return res.status(400).json({ error: list.error });
+    }
+
+    // Festivals by derived type (classification.ts), whatever the source category;
+    // moussems, gatherings and showcases are types of their own
     let festivals = events.filter(e => e.event_type === 'festival');
 
     // Filter to upcoming by default
@@ -21,22 +40,24 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
       festivals = getUpcomingEvents(festivals);
     }
 
-    // Sort by cultural significance, then date
-    festivals.sort((a, b) => {
-      if (a.is_pinned && !b.is_pinned) return -1;
-      if (!a.is_pinned && b.is_pinned) return 1;
-      if (b.cultural_significance !== a.cultural_significance) {
-        return b.cultural_significance - a.cultural_significance;
-      }
-      return a.start_date.localeCompare(b.start_date);
-    });
-
-    return res.status(200).json({
-      data: festivals,
-      meta: {
-        total: festivals.length,
-      },
-    });
+    // On now, today or this weekend, in Morocco's time zone
+    if (happening.happening) {
+      festivals = getHappeningEvents(festivals, happening.happening);
+    }
+
+    // Free or paid, and within budget
+    festivals = applyPriceQuery(festivals, price.query);
+
+    // Sort by cultural significance, then date, unless asked otherwise
+    const response = paginate(
+      sortEvents(festivals, list.query.sort).map(e =>
+        withPrice(withPhase(localizeEvent(e, list.query.lang)), price.query.currency)
+      ),
+      list.query
+    );
+    res.setHeader('Link', buildLinkHeader(req.url || '/api/festivals', response.meta));
+
+    return res.status(200).json(response);
   } catch (error) {
     console.error('Error fetching festivals:', error);
     return res.status(500).json({ error: 'Failed to fetch festivals' });
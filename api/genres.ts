@@ -0,0 +1,96 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import {
+  countEventsBy,
+  fetchEvents,
+  getEventsByGenre,
+  getUniqueGenres,
+  getUpcomingEvents,
+  slugify,
+} from '../src/lib/repository';
+import { resolvePlace } from '../src/lib/gazetteer';
+import { findTraditions } from '../src/lib/tradition-tagger';
+import { MUSIC_TRADITIONS } from '../src/lib/taxonomy';
+
+/**
+ * Genres: the free-text tags on events, less those naming a place (cities
+ * and regions have their own endpoints). Each lists the traditions it names,
+ * so "gnaoua" points to gnawa.
+ *
+ * /api/genres               Every genre with event counts
+ * /api/genres?slug=jazz     One genre with its upcoming events
+ */
+
+function genreTraditions(name: string) {
+  return findTraditions(name).map(id => ({
+    id,
+    name: MUSIC_TRADITIONS[id].name,
+    sacred: MUSIC_TRADITIONS[id].sacred,
+  }));
+}
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  res.setHeader('Access-Control-Allow-Origin', '*');
+  res.setHeader('Cache-Control', 's-maxage=3600, stale-while-revalidate');
+
+  if (req.method !== 'GET') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  try {
+    const { slug } = req.query;
+    const events = await fetchEvents();
+    const genres = getUniqueGenres(events).filter(g => !resolvePlace(g.name));
+
+    // Single genre with events
+    if (slug && typeof slug === 'string') {
+      const genre = genres.find(g => g.slug === slug);
+      if (!genre) {
+        return res.status(404).json({ error: 'Genre not found' });
+      }
+
+      const genreEvents = getEventsByGenre(events, slug);
+      const upcoming = getUpcomingEvents(genreEvents);
+      const traditions = genreTraditions(genre.name);
+
+      return res.status(200).json({
+        genre: {
+          name: genre.name,
+          slug: genre.slug,
+          traditions,
+          sacred: traditions.some(t => t.sacred),
+        },
+        events: upcoming,
+        meta: {
+          total_events: genreEvents.length,
+          upcoming_events: upcoming.length,
+        },
+      });
+    }
+
+    const counts = countEventsBy(events, e => e.genres.map(slugify));
+
+    const data = genres
+      .map(genre => {
+        const traditions = genreTraditions(genre.name);
+        return {
+          name: genre.name,
+          slug: genre.slug,
+          event_count: counts.get(genre.slug)?.event_count || 0,
+          upcoming_count: counts.get(genre.slug)?.upcoming_count || 0,
+          traditions,
+          sacred: traditions.some(t => t.sacred),
+        };
+      })
+      .sort((a, b) => b.upcoming_count - a.upcoming_count || b.event_count - a.event_count);
+
+    return res.status(200).json({
+      data,
+      meta: {
+        total: data.length,
+      },
+    });
+  } catch (error) {
+    console.error('Error fetching genres:', error);
+    return res.status(500).json({ error: 'Failed to fetch genres' });
+  }
+}
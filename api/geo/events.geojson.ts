@@ -0,0 +1,104 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { fetchEvents } from '../../src/lib/repository';
+import { checkDateWindow, parseSearchQuery, runSearch } from '../../src/lib/search';
+import { checkFacetSelection, EVENT_FACETS } from '../../src/lib/facets';
+import { parseGeoQuery } from '../../src/lib/geo-search';
+import { parseHappening } from '../../src/lib/dates';
+import { parsePriceQuery } from '../../src/lib/pricing';
+import { parseAccessibilityQuery } from '../../src/lib/accessibility';
+import {
+  clusterEvents,
+  eventsToGeoJSON,
+  MAX_CLUSTER_ZOOM,
+  regionsToGeoJSON,
+} from '../../src/lib/geojson';
+
+/**
+ * Events as GeoJSON for the map and GIS tools (see src/lib/geojson.ts).
+ * Takes every /api/search filter (q, city, genre, near, bbox, happening,
+ * free, price_max, accessibility, ...).
+ *
+ * /api/geo/events.geojson                One Point per event
+ * /api/geo/events.geojson?zoom=6         Clustered for that zoom level
+ * /api/geo/events.geojson?layer=regions  Region polygons with event counts
+ */
+
+const LAYERS = ['events', 'regions'];
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  res.setHeader('Access-Control-Allow-Origin', '*');
+  res.setHeader('Cache-Control', 's-maxage=300, stale-while-revalidate');
+
+  if (req.method !== 'GET') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  try {
+    const { layer = 'events', zoom } = req.query;
+
+    if (typeof layer !== 'string' || !LAYERS.includes(layer)) {
+      return res.status(400).json({ error: `Invalid layer. Use one of: ${LAYERS.join(', ')}` });
+    }
+
+    let clusterZoom: number | null = null;
+    if (typeof zoom === 'string' && zoom) {
+      clusterZoom = Number(zoom);
+      if (!Number.isInteger(clusterZoom) || clusterZoom < 0 || clusterZoom > 22) {
+        return res.status(400).json({ error: 'Invalid zoom. Use an integer from 0 to 22' });
+      }
+    }
+
+    const query = parseSearchQuery(req.query);
+    const invalid = checkFacetSelection(query.facets, EVENT_FACETS) || checkDateWindow(query);
+    if (invalid) {
+      return res.status(400).json({ error: invalid });
+    }
+    const geo = parseGeoQuery(req.query);
+    if ('error' in geo) {
+      return res.status(400).json({ error: geo.error });
+    }
+    const happening = parseHappening(req.query.happening);
+    if ('error' in happening) {
+      return res.status(400).json({ error: happening.error });
+    }
+    const price = parsePriceQuery(req.query);
+    if ('error' in price) {
+      return res.status(400).json({ error: price.error });
+    }
+    const accessibility = parseAccessibilityQuery(req.query);
+    if ('error' in accessibility) {
+      return res.status(400).json({ error: accessibility.error });
+    }
+
+    // Tentative, dormant and archived events only when the status facet names them
+    const events = runSearch(await fetchEvents({ statuses: query.facets.status }), {
+      ...query,
+      happening: happening.happening,
+      geo: geo.query,
+      price: price.query,
+      accessibility: accessibility.query,
+    });
+
+    const collection =
+      layer === 'regions'
+        ? regionsToGeoJSON(events)
+        : clusterZoom !== null
+          ? clusterEvents(events, clusterZoom)
+          : eventsToGeoJSON(events);
+
+    res.setHeader('Content-Type', 'application/geo+json; charset=utf-8');
+    return res.status(200).send(JSON.stringify({
+      ...collection,
+      // Foreign members (RFC 7946 §6.1), ignored by GIS tools
+      meta: {
+        total: events.length,
+        features: collection.features.length,
+        zoom: clusterZoom,
+        max_cluster_zoom: MAX_CLUSTER_ZOOM,
+      },
+    }));
+  } catch (error) {
+    console.error('GeoJSON error:', error);
+    return res.status(500).json({ error: 'Failed to build GeoJSON' });
+  }
+}
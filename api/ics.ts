@@ -0,0 +1,101 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { fetchEvents, resolveEventSlug } from '../src/lib/repository';
+import { checkDateWindow, parseSearchQuery, runSearch } from '../src/lib/search';
+import { checkFacetSelection, EVENT_FACETS } from '../src/lib/facets';
+import { parseGeoQuery } from '../src/lib/geo-search';
+import { parseHappening } from '../src/lib/dates';
+import { parsePriceQuery } from '../src/lib/pricing';
+import { parseAccessibilityQuery } from '../src/lib/accessibility';
+import { buildCalendar } from '../src/lib/ical';
+
+/**
+ * iCalendar (.ics) feeds.
+ *
+ * /api/ics?event=<slug>    One event
+ * /api/ics?city=<slug>     Subscription for a city
+ * /api/ics?genre=<genre>   Subscription for a genre
+ * /api/ics?<search query>  Any /api/search query (q, city, genre, type, status, from, to, upcoming, happening, free, price_max)
+ */
+
+function sendCalendar(res: VercelResponse, filename: string, body: string) {
+  res.setHeader('Content-Type', 'text/calendar; charset=utf-8');
+  res.setHeader('Content-Disposition', `inline; filename="${filename}.ics"`);
+  return res.status(200).send(body);
+}
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  res.setHeader('Access-Control-Allow-Origin', '*');
+  res.setHeader('Cache-Control', 's-maxage=3600, stale-while-revalidate');
+
+  if (req.method !== 'GET') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  try {
+    const { event: slug } = req.query;
+    const query = parseSearchQuery(req.query);
+    // Tentative, dormant and archived events only when the status facet names them
+    const events = await fetchEvents({ statuses: query.facets.status });
+
+    // Single event; ids and retired slugs redirect to the current slug
+    if (slug && typeof slug === 'string') {
+      const resolved = resolveEventSlug(events, slug);
+      if (!resolved) {
+        return res.status(404).json({ error: 'Event not found' });
+      }
+      if (!resolved.canonical) {
+        return res.redirect(301, `/api/ics?event=${encodeURIComponent(resolved.event.slug)}`);
+      }
+      const event = resolved.event;
+      if (!event.start_date) {
+        return res.status(404).json({ error: 'Event has no dates yet' });
+      }
+      return sendCalendar(res, event.slug, buildCalendar([event], { name: event.name }));
+    }
+
+    // Subscription for a city, a genre or any search
+    const invalid = checkFacetSelection(query.facets, EVENT_FACETS) || checkDateWindow(query);
+    if (invalid) {
+      return res.status(400).json({ error: invalid });
+    }
+    const geo = parseGeoQuery(req.query);
+    if ('error' in geo) {
+      return res.status(400).json({ error: geo.error });
+    }
+    const happening = parseHappening(req.query.happening);
+    if ('error' in happening) {
+      return res.status(400).json({ error: happening.error });
+    }
+    const price = parsePriceQuery(req.query);
+    if ('error' in price) {
+      return res.status(400).json({ error: price.error });
+    }
+    const accessibility = parseAccessibilityQuery(req.query);
+    if ('error' in accessibility) {
+      return res.status(400).json({ error: accessibility.error });
+    }
+    const results = runSearch(events, {
+      ...query,
+      happening: happening.happening,
+      geo: geo.query,
+      price: price.query,
+      accessibility: accessibility.query,
+    });
+
+    const { city: citySlugs = [], genre = [], type = [] } = query.facets;
+    const cities = citySlugs.map(slug => events.find(e => e.city_slug === slug)?.city || slug);
+    const label = [cities.join(', '), genre.join(', '), type.join(', '), query.q && `"${query.q}"`]
+      .filter(Boolean)
+      .join(' · ');
+    const name = label ? `Festivals in Morocco: ${label}` : 'Festivals in Morocco';
+    const filename = [...citySlugs, ...genre, ...type].join('-') || 'festivals';
+
+    return sendCalendar(res, filename, buildCalendar(results, {
+      name,
+      description: 'Festivals, moussems and cultural events in Morocco',
+    }));
+  } catch (error) {
+    console.error('iCalendar error:', error);
+    return res.status(500).json({ error: 'Failed to build calendar' });
+  }
+}
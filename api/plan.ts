@@ -0,0 +1,59 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { fetchEvents, localizeEvent, LANGS, type Lang } from '../src/lib/repository';
+import { parseSearchQuery, runSearch } from '../src/lib/search';
+import { parsePlanRequest, planTrip } from '../src/lib/planner';
+
+/**
+ * Trip planner: an itinerary of events for a date window and route
+ * (see src/lib/planner.ts).
+ * Search filters (q, city, genre, type, ...) narrow the events considered.
+ */
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  res.setHeader('Access-Control-Allow-Origin', '*');
+  res.setHeader('Cache-Control', 's-maxage=300, stale-while-revalidate');
+
+  if (req.method !== 'GET') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  try {
+    const plan = parsePlanRequest(req.query);
+    if ('error' in plan) {
+      return res.status(400).json({ error: plan.error });
+    }
+
+    const lang = typeof req.query.lang === 'string' && req.query.lang ? req.query.lang : 'en';
+    if (!LANGS.includes(lang as Lang)) {
+      return res.status(400).json({ error: `Invalid lang "${lang}". Use one of: ${LANGS.join(', ')}` });
+    }
+
+    // The window is the planner's: lunar events are projected before dates are compared
+    const query = { ...parseSearchQuery(req.query), from: undefined, to: undefined };
+    const events = runSearch(await fetchEvents({ statuses: query.facets.status }), query);
+
+    const { stops, total_km, candidates } = planTrip(events, plan.request);
+
+    return res.status(200).json({
+      data: {
+        itinerary: stops.map(stop => ({
+          ...stop,
+          event: localizeEvent(stop.event, lang as Lang),
+          alternates: stop.alternates.map(alt => ({ ...alt, event: localizeEvent(alt.event, lang as Lang) })),
+        })),
+        total_km,
+      },
+      meta: {
+        from: plan.request.from,
+        to: plan.request.to,
+        max_daily_km: plan.request.max_daily_km,
+        detour_km: plan.request.detour_km,
+        stops: stops.length,
+        candidates,
+      },
+    });
+  } catch (error) {
+    console.error('Plan error:', error);
+    return res.status(500).json({ error: 'Failed to plan trip' });
+  }
+}
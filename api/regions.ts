@@ -0,0 +1,87 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import {
+  countEventsBy,
+  fetchEvents,
+  getUniqueCities,
+  getUpcomingEvents,
+} from '../src/lib/repository';
+import { MUSIC_TRADITIONS, REGIONS } from '../src/lib/taxonomy';
+
+/**
+ * Morocco's twelve regions with city and event counts.
+ *
+ * /api/regions              Every region, including ones with no events
+ * /api/regions?slug=souss-massa
+ *                           One region with its cities and upcoming events
+ */
+
+// Rooted traditions of a region (MUSIC_TRADITIONS regions), whether or not
+// any event features them yet
+function regionTraditions(slug: string) {
+  return Object.values(MUSIC_TRADITIONS)
+    .filter(t => t.regions?.includes(slug))
+    .map(t => ({ id: t.id, name: t.name, sacred: t.sacred }));
+}
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  res.setHeader('Access-Control-Allow-Origin', '*');
+  res.setHeader('Cache-Control', 's-maxage=3600, stale-while-revalidate');
+
+  if (req.method !== 'GET') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  try {
+    const { slug } = req.query;
+    const events = await fetchEvents();
+
+    // Single region with cities and events
+    if (slug && typeof slug === 'string') {
+      const region = REGIONS.find(r => r.slug === slug);
+      if (!region) {
+        return res.status(404).json({ error: 'Region not found' });
+      }
+
+      const regionEvents = events.filter(e => e.region_slug === slug);
+      const upcoming = getUpcomingEvents(regionEvents);
+
+      return res.status(200).json({
+        region: {
+          name: region.name,
+          slug: region.slug,
+          traditions: regionTraditions(region.slug),
+        },
+        cities: getUniqueCities(regionEvents),
+        events: upcoming,
+        meta: {
+          total_events: regionEvents.length,
+          upcoming_events: upcoming.length,
+        },
+      });
+    }
+
+    const counts = countEventsBy(events, e => (e.region_slug ? [e.region_slug] : []));
+
+    const regions = REGIONS
+      .map(region => ({
+        name: region.name,
+        slug: region.slug,
+        city_count: new Set(events.filter(e => e.region_slug === region.slug).map(e => e.city_slug)).size,
+        event_count: counts.get(region.slug)?.event_count || 0,
+        upcoming_count: counts.get(region.slug)?.upcoming_count || 0,
+        traditions: regionTraditions(region.slug),
+      }))
+      .sort((a, b) => b.upcoming_count - a.upcoming_count || b.event_count - a.event_count);
+
+    return res.status(200).json({
+      data: regions,
+      meta: {
+        total: regions.length,
+        with_events: regions.filter(r => r.event_count > 0).length,
+      },
+    });
+  } catch (error) {
+    console.error('Error fetching regions:', error);
+    return res.status(500).json({ error: 'Failed to fetch regions' });
+  }
+}
@@ -1,64 +1,19 @@
 import type { VercelRequest, VercelResponse } from '@vercel/node';
-import { fetchEvents, getUpcomingEvents, SheetEvent } from '../src/sheets/client';
+import { fetchEvents, localizeEvent, withPhase } from '../src/lib/repository';
+import { checkDateWindow, parseSearchQuery, runFacetedSearch } from '../src/lib/search';
+import { checkFacetSelection, EVENT_FACETS } from '../src/lib/facets';
+import { buildLinkHeader, paginate, parseListQuery, sortEvents } from '../src/lib/pagination';
+import { parseGeoQuery } from '../src/lib/geo-search';
+import { parseHappening } from '../src/lib/dates';
+import { parsePriceQuery, withPrice } from '../src/lib/pricing';
+import { parseAccessibilityQuery } from '../src/lib/accessibility';
 
 /**
- * Simple text search across events.
- * For full search functionality, use Typesense.
- * This is a fallback that works without any external services.
+ * Text search across events with faceted filters (see src/lib/search.ts
+ * and src/lib/facets.ts).
+ * The same query string works on /api/ics for a calendar subscription.
  */
 
-function searchEvents(events: SheetEvent[], query: string): SheetEvent[] {
-  const q = query.toLowerCase().trim();
-  if (!q) return events;
-
-  return events.filter(event => {
-    const searchable = [
-      event.name,
-      event.city,
-      event.region,
-      event.venue,
-      event.organizer,
-      ...event.genres,
-      ...event.artists,
-      event.description,
-    ]
-      .filter(Boolean)
-      .join(' ')
-      .toLowerCase();
-
-    // Simple word matching
-    const words = q.split(/\s+/);
-    return words.every(word => searchable.includes(word));
-  });
-}
-
-function scoreEvent(event: SheetEvent, query: string): number {
-  const q = query.toLowerCase();
-  let score = 0;
-
-  // Name match is strongest
-  if (event.name.toLowerCase().includes(q)) score += 10;
-
-  // Artist match
-  if (event.artists.some(a => a.toLowerCase().includes(q))) score += 5;
-
-  // City/venue match
-  if (event.city.toLowerCase().includes(q)) score += 3;
-  if (event.venue?.toLowerCase().includes(q)) score += 3;
-
-  // Genre match
-  if (event.genres.some(g => g.toLowerCase().includes(q))) score += 2;
-
-  // Pinned and verified boost
-  if (event.is_pinned) score += 5;
-  if (event.is_verified) score += 2;
-
-  // Cultural significance boost
-  score += event.cultural_significance;
-
-  return score;
-}
-
 export default async function handler(req: VercelRequest, res: VercelResponse) {
   res.setHeader('Access-Control-Allow-Origin', '*');
   res.setHeader('Cache-Control', 's-maxage=60, stale-while-revalidate');
@@ -68,69 +23,66 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
   }
 
   try {
-    const { q, city, genre, type, from, to, upcoming } = req.query;
-    const query = (q as string) || '';
-
-    let events = await fetchEvents();
-
-    // Text search
-    if (query) {
-      events = searchEvents(events, query);
+    const query = parseSearchQuery(req.query);
+    const invalid = checkFacetSelection(query.facets, EVENT_FACETS) || checkDateWindow(query);
+    if (invalid) {
+      return res.status(400).json({ error: invalid });
     }
 
-    // Filters
-    if (city && typeof city === 'string') {
-      events = events.filter(e => e.city_slug === city);
-    }
+    // Tentative, dormant and archived events only when the status facet names them
+    const allEvents = await fetchEvents({ statuses: query.facets.status });
 
-    if (genre && typeof genre === 'string') {
-      const g = genre.toLowerCase();
-      events = events.filter(e => e.genres.some(eg => eg.toLowerCase() === g));
+    const geo = parseGeoQuery(req.query);
+    if ('error' in geo) {
+      return res.status(400).json({ error: geo.error });
     }
 
-    if (type && typeof type === 'string') {
-      events = events.filter(e => e.event_type === type);
+    const happening = parseHappening(req.query.happening);
+    if ('error' in happening) {
+      return res.status(400).json({ error: happening.error });
     }
 
-    if (from && typeof from === 'string') {
-      events = events.filter(e => e.start_date >= from);
+    const price = parsePriceQuery(req.query);
+    if ('error' in price) {
+      return res.status(400).json({ error: price.error });
     }
 
-    if (to && typeof to === 'string') {
-      events = events.filter(e => e.start_date <= to);
+    const accessibility = parseAccessibilityQuery(req.query);
+    if ('error' in accessibility) {
+      return res.status(400).json({ error: accessibility.error });
     }
 
-    if (upcoming === 'true') {
-      events = getUpcomingEvents(events);
+    // Relevance ranking when there is a text query, date order otherwise
+    const list = parseListQuery(
+      req.query,
+      query.q ? 'relevance' : 'date',
+      [...Object.keys(allEvents[0] || {}), 'phase', 'price', ...(geo.query.near ? ['distance_km'] : [])]
+    );
+    if ('error' in list) {
+      return res.status(400).json({ error: list.error });
     }
 
-    // Score and sort
-    if (query) {
-      events = events
-        .map(e => ({ event: e, score: scoreEvent(e, query) }))
-        .sort((a, b) => b.score - a.score)
-        .map(({ event }) => event);
-    } else {
-      // Default sort: pinned first, then by date
-      events.sort((a, b) => {
-        if (a.is_pinned && !b.is_pinned) return -1;
-        if (!a.is_pinned && b.is_pinned) return 1;
-        return a.start_date.localeCompare(b.start_date);
-      });
-    }
+    const { events, facets } = runFacetedSearch(allEvents, {
+      ...query,
+      happening: happening.happening,
+      geo: geo.query,
+      price: price.query,
+      accessibility: accessibility.query,
+    });
 
-    // Build facets
-    const facets = {
-      cities: [...new Set(events.map(e => e.city))].slice(0, 20),
-      genres: [...new Set(events.flatMap(e => e.genres))].slice(0, 20),
-      types: [...new Set(events.map(e => e.event_type))],
-    };
+    const response = paginate(
+      sortEvents(events, list.query.sort).map(e =>
+        withPrice(withPhase(localizeEvent(e, list.query.lang)), price.query.currency)
+      ),
+      list.query
+    );
+    res.setHeader('Link', buildLinkHeader(req.url || '/api/search', response.meta));
 
     return res.status(200).json({
-      data: events,
+      data: response.data,
       meta: {
-        total: events.length,
-        query: query || null,
+        ...response.meta,
+        query: query.q || null,
       },
       facets,
     });
@@ -0,0 +1,60 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { fetchEvents } from '../src/lib/repository';
+import { getAllSeries, getSeries } from '../src/lib/series';
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  res.setHeader('Access-Control-Allow-Origin', '*');
+  res.setHeader('Cache-Control', 's-maxage=3600, stale-while-revalidate');
+
+  if (req.method !== 'GET') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  try {
+    const { id } = req.query;
+    const events = await fetchEvents();
+
+    // Single series with its past and upcoming editions
+    if (id && typeof id === 'string') {
+      const series = getSeries(events, id);
+
+      if (!series) {
+        return res.status(404).json({ error: 'Series not found' });
+      }
+
+      return res.status(200).json({
+        data: {
+          id: series.id,
+          name: series.name,
+          city: series.city,
+          past: series.past,
+          upcoming: series.upcoming,
+          next_expected: series.next_expected,
+        },
+        meta: {
+          total_editions: series.editions.length,
+        },
+      });
+    }
+
+    // List all series with edition counts
+    const series = getAllSeries(events).map(s => ({
+      id: s.id,
+      name: s.name,
+      city: s.city,
+      past_count: s.past.length,
+      upcoming_count: s.upcoming.length,
+      next_expected: s.next_expected,
+    }));
+
+    return res.status(200).json({
+      data: series,
+      meta: {
+        total: series.length,
+      },
+    });
+  } catch (error) {
+    console.error('Error fetching series:', error);
+    return res.status(500).json({ error: 'Failed to fetch series' });
+  }
+}
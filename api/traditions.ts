@@ -0,0 +1,118 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import {
+  countEventsBy,
+  fetchEvents,
+  getEventsByTradition,
+  getUpcomingEvents,
+} from '../src/lib/repository';
+import {
+  MUSIC_TRADITIONS,
+  TraditionCategory,
+  TraditionCategoryLabels,
+  type MusicTradition,
+} from '../src/lib/taxonomy';
+
+/**
+ * Music traditions (MUSIC_TRADITIONS) with the number of events tagged with
+ * each (see src/lib/tradition-tagger.ts), grouped rooted, hybrid, imported.
+ *
+ * /api/traditions                 Every tradition, by category
+ * /api/traditions?category=rooted One category (also sacred=true|false)
+ * /api/traditions?id=gnawa        One tradition with its upcoming events
+ */
+
+const CATEGORIES = Object.values(TraditionCategory) as TraditionCategory[];
+
+function traditionFields(tradition: MusicTradition) {
+  return {
+    id: tradition.id,
+    name: tradition.name,
+    name_ar: tradition.name_ar || null,
+    name_tzm: tradition.name_tzm || null,
+    category: tradition.category,
+    sacred: tradition.sacred,
+    regions: tradition.regions || [],
+    description: tradition.description,
+  };
+}
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  res.setHeader('Access-Control-Allow-Origin', '*');
+  res.setHeader('Cache-Control', 's-maxage=3600, stale-while-revalidate');
+
+  if (req.method !== 'GET') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  try {
+    const { id, category, sacred } = req.query;
+    const events = await fetchEvents();
+
+    // Single tradition with events
+    if (id && typeof id === 'string') {
+      const tradition = MUSIC_TRADITIONS[id];
+      if (!tradition) {
+        return res.status(404).json({ error: 'Tradition not found' });
+      }
+
+      const traditionEvents = getEventsByTradition(events, id);
+      const upcoming = getUpcomingEvents(traditionEvents);
+
+      return res.status(200).json({
+        tradition: traditionFields(tradition),
+        events: upcoming,
+        meta: {
+          total_events: traditionEvents.length,
+          upcoming_events: upcoming.length,
+        },
+      });
+    }
+
+    if (category && !CATEGORIES.includes(category as TraditionCategory)) {
+      return res.status(400).json({ error: `Invalid category "${category}". Use one of: ${CATEGORIES.join(', ')}` });
+    }
+    if (sacred && sacred !== 'true' && sacred !== 'false') {
+      return res.status(400).json({ error: 'sacred must be true or false' });
+    }
+
+    const counts = countEventsBy(events, e => e.traditions.map(t => t.id));
+
+    const traditions = Object.values(MUSIC_TRADITIONS)
+      .filter(t => !category || t.category === category)
+      .filter(t => !sacred || t.sacred === (sacred === 'true'))
+      .map(t => ({
+        ...traditionFields(t),
+        event_count: counts.get(t.id)?.event_count || 0,
+        upcoming_count: counts.get(t.id)?.upcoming_count || 0,
+      }))
+      .sort((a, b) => b.upcoming_count - a.upcoming_count || b.event_count - a.event_count);
+
+    // An event counts once per category, however many of its traditions are in it
+    const listed = new Set(traditions.map(t => t.id));
+    const categoryCounts = countEventsBy(events, e =>
+      e.traditions.filter(t => listed.has(t.id)).map(t => MUSIC_TRADITIONS[t.id].category)
+    );
+
+    const groups = CATEGORIES
+      .filter(c => !category || c === category)
+      .map(c => ({
+        category: c,
+        label: TraditionCategoryLabels[c],
+        event_count: categoryCounts.get(c)?.event_count || 0,
+        upcoming_count: categoryCounts.get(c)?.upcoming_count || 0,
+        traditions: traditions.filter(t => t.category === c),
+      }));
+
+    return res.status(200).json({
+      data: groups,
+      meta: {
+        total: traditions.length,
+        with_events: traditions.filter(t => t.event_count > 0).length,
+        sacred: traditions.filter(t => t.sacred).length,
+      },
+    });
+  } catch (error) {
+    console.error('Error fetching traditions:', error);
+    return res.status(500).json({ error: 'Failed to fetch traditions' });
+  }
+}
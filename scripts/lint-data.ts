@@ -0,0 +1,37 @@
+/**
+ * Data lint — validates every record in src/lib/data/festivals.ts, every
+ * retired slug in src/lib/data/slug-history.ts and every series in
+ * src/lib/data/series.ts, and checks that vercel.json redirects every
+ * retired event slug and city spelling (npm run redirects).
+ *
+ * Usage: npm run lint:data
+ * Exits non-zero when any record fails, so the build stops before bad data ships.
+ */
+
+import { readFileSync } from "node:fs";
+import { festivals } from "../src/lib/data/festivals";
+import { festivalSeries } from "../src/lib/data/series";
+import { slugHistory } from "../src/lib/data/slug-history";
+import { EVENT_STATUSES } from "../src/lib/lifecycle";
+import { citySlugRedirectRules, fetchEvents, slugRedirectRules } from "../src/lib/repository";
+import { formatReport, validateRows } from "../src/lib/validation";
+
+const report = validateRows(festivals, {
+  slugHistory,
+  series: festivalSeries,
+});
+
+console.log(formatReport(report));
+
+const vercel = JSON.parse(readFileSync(new URL("../vercel.json", import.meta.url), "utf8"));
+const allEvents = await fetchEvents({ statuses: EVENT_STATUSES });
+const redirectsCurrent =
+  JSON.stringify(vercel.redirects || []) ===
+  JSON.stringify([...slugRedirectRules(allEvents), ...citySlugRedirectRules(allEvents)]);
+if (!redirectsCurrent) {
+  console.log("vercel.json redirects are out of date with the slug history or places; run npm run redirects");
+}
+
+if (report.invalid.length > 0 || !redirectsCurrent) {
+  process.exit(1);
+}
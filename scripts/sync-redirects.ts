@@ -0,0 +1,22 @@
+/**
+ * Redirect sync — writes the permanent redirects for retired event slugs
+ * (src/lib/data/slug-history.ts) and for other spellings of city slugs
+ * (src/lib/data/places.ts) into vercel.json, so old URLs answer with a real
+ * HTTP 301. Vercel reads vercel.json before the build runs, so the
+ * result is committed; `lint:data` fails the build when it is out of date.
+ *
+ * Usage: npm run redirects
+ */
+
+import { readFileSync, writeFileSync } from "node:fs";
+import { EVENT_STATUSES } from "../src/lib/lifecycle";
+import { citySlugRedirectRules, fetchEvents, slugRedirectRules } from "../src/lib/repository";
+
+const path = new URL("../vercel.json", import.meta.url);
+const config = JSON.parse(readFileSync(path, "utf8"));
+// Unlisted (tentative, dormant, archived) events keep their redirects too
+const events = await fetchEvents({ statuses: EVENT_STATUSES });
+const redirects = [...slugRedirectRules(events), ...citySlugRedirectRules(events)];
+
+writeFileSync(path, JSON.stringify({ ...config, redirects }, null, 2) + "\n");
+console.log(`${redirects.length} redirects written to vercel.json`);
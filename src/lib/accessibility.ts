@@ -0,0 +1,239 @@
+/**
+ * Accessibility
+ *
+ * What an event offers visitors with disabilities, and what stands in their
+ * way: step-free access, toilets, seating, quiet zones and sensory-friendly
+ * sessions, the ground underfoot (dunes and medina cobbles are common), the
+ * three original flags (wheelchair access, sign language, audio description),
+ * notes in the organiser's words and when it was all last checked.
+ *
+ * Each feature is true, false or unknown (null): "no accessible toilets" and
+ * "nobody has asked" read very differently to someone planning a trip.
+ */
+
+import { todayInMorocco } from "./dates";
+import type { FestivalRow, SheetEvent } from "./repository";
+import type { QueryParams } from "./search";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+// Features an event has or lacks; the accessibility facet's values
+export const ACCESSIBILITY_FEATURES = [
+  "step_free",
+  "accessible_toilets",
+  "quiet_zone",
+  "sensory_friendly",
+  "wheelchair",
+  "sign_language",
+  "audio_description",
+] as const;
+export type AccessibilityFeature = (typeof ACCESSIBILITY_FEATURES)[number];
+
+export const AccessibilityFeatureLabels: Record<AccessibilityFeature, string> = {
+  step_free: "Step-free access",
+  accessible_toilets: "Accessible toilets",
+  quiet_zone: "Quiet zone",
+  sensory_friendly: "Sensory-friendly sessions",
+  wheelchair: "Wheelchair access",
+  sign_language: "Sign language",
+  audio_description: "Audio description",
+};
+
+export const SEATING = ["none", "limited", "accessible"] as const;
+export type Seating = (typeof SEATING)[number];
+
+export const SeatingLabels: Record<Seating, string> = {
+  none: "Standing only",
+  limited: "Some seating",
+  accessible: "Accessible seating reserved",
+};
+
+export const VENUE_SURFACES = ["indoor", "paved", "grass", "gravel", "sand", "cobbles", "mixed"] as const;
+export type VenueSurface = (typeof VENUE_SURFACES)[number];
+
+export const VenueSurfaceLabels: Record<VenueSurface, string> = {
+  indoor: "Indoor",
+  paved: "Paved",
+  grass: "Grass",
+  gravel: "Gravel or stony ground",
+  sand: "Sand",
+  cobbles: "Medina cobbles",
+  mixed: "Mixed ground",
+};
+
+// Hard going for wheels, sticks and tired legs
+const DIFFICULT_SURFACES = new Set<VenueSurface>(["sand", "cobbles", "gravel"]);
+
+export interface AccessibilityProfile {
+  // null: not known
+  features: Record<AccessibilityFeature, boolean | null>;
+  seating: Seating | null;
+  surface: VenueSurface | null;
+  notes: string | null;
+  // YYYY-MM-DD
+  verified_at: string | null;
+}
+
+export type AccessLevel = "step_free" | "partial" | "limited" | "unknown";
+
+/** A profile as the API's per-event summary presents it. */
+export interface AccessibilitySummary {
+  level: AccessLevel;
+  // Labels, e.g. "Step-free access, Accessible toilets · Sand underfoot"
+  headline: string;
+  available: AccessibilityFeature[];
+  unavailable: AccessibilityFeature[];
+  unknown: AccessibilityFeature[];
+  seating: { value: Seating; label: string } | null;
+  surface: { value: VenueSurface; label: string; difficult: boolean } | null;
+  notes: string | null;
+  verified_at: string | null;
+  // Last checked over a year ago, or never
+  stale: boolean;
+}
+
+export interface AccessibilityQuery {
+  // Profiles checked on or after this date (YYYY-MM-DD)
+  verified_since: string | null;
+}
+
+export type AccessibilityQueryResult = { query: AccessibilityQuery } | { error: string };
+
+// ============================================================================
+// PROFILES
+// ============================================================================
+
+function flag(value: boolean | null | undefined): boolean | null {
+  return typeof value === "boolean" ? value : null;
+}
+
+export function isSeating(value: unknown): value is Seating {
+  return SEATING.includes(value as Seating);
+}
+
+export function isVenueSurface(value: unknown): value is VenueSurface {
+  return VENUE_SURFACES.includes(value as VenueSurface);
+}
+
+/** The accessibility profile of a raw record. */
+export function accessibilityProfile(row: FestivalRow): AccessibilityProfile {
+  return {
+    features: {
+      step_free: flag(row.step_free_access),
+      accessible_toilets: flag(row.accessible_toilets),
+      quiet_zone: flag(row.quiet_zone),
+      sensory_friendly: flag(row.sensory_friendly),
+      wheelchair: flag(row.wheelchair_access),
+      sign_language: flag(row.sign_language),
+      audio_description: flag(row.audio_description),
+    },
+    seating: isSeating(row.seating) ? row.seating : null,
+    surface: isVenueSurface(row.venue_surface) ? row.venue_surface : null,
+    notes: row.accessibility_notes?.trim() || null,
+    verified_at: row.accessibility_verified_at || null,
+  };
+}
+
+/** Why a record's seating, surface or verification date are wrong. */
+export function checkAccessibility(row: FestivalRow): string[] {
+  const errors: string[] = [];
+  if (row.seating && !isSeating(row.seating)) {
+    errors.push(`seating "${row.seating}" is not one of: ${SEATING.join(", ")}`);
+  }
+  if (row.venue_surface && !isVenueSurface(row.venue_surface)) {
+    errors.push(`venue_surface "${row.venue_surface}" is not one of: ${VENUE_SURFACES.join(", ")}`);
+  }
+  if (row.accessibility_verified_at && !/^\d{4}-\d{2}-\d{2}$/.test(row.accessibility_verified_at)) {
+    errors.push(`accessibility_verified_at "${row.accessibility_verified_at}" is not YYYY-MM-DD`);
+  }
+  return errors;
+}
+
+// ============================================================================
+// SUMMARY
+// ============================================================================
+
+function yearBefore(date: string): string {
+  return `${Number(date.slice(0, 4)) - 1}${date.slice(4)}`;
+}
+
+/**
+ * Step-free: step-free access and accessible toilets on easy ground.
+ * Limited: no step-free access, or sand, cobbles or gravel underfoot.
+ * Partial: anything known in between; unknown when nothing is.
+ */
+function accessLevel(profile: AccessibilityProfile): AccessLevel {
+  const { features, surface } = profile;
+  const difficult = surface !== null && DIFFICULT_SURFACES.has(surface);
+  if (features.step_free === false || difficult) return "limited";
+  if (features.step_free && features.accessible_toilets) return "step_free";
+  const known = Object.values(features).some((v) => v !== null) || profile.seating || surface;
+  return known ? "partial" : "unknown";
+}
+
+/** A profile summarised for the API: level, headline and each feature. */
+export function accessibilitySummary(
+  profile: AccessibilityProfile,
+  today: string = todayInMorocco()
+): AccessibilitySummary {
+  const having = (value: boolean | null) =>
+    ACCESSIBILITY_FEATURES.filter((f) => profile.features[f] === value);
+  const available = having(true);
+  const surface = profile.surface
+    ? {
+        value: profile.surface,
+        label: VenueSurfaceLabels[profile.surface],
+        difficult: DIFFICULT_SURFACES.has(profile.surface),
+      }
+    : null;
+
+  const headline = [
+    available.map((f) => AccessibilityFeatureLabels[f]).join(", "),
+    profile.seating && SeatingLabels[profile.seating],
+    surface?.difficult && `${surface.label} underfoot`,
+  ]
+    .filter(Boolean)
+    .join(" · ");
+
+  return {
+    level: accessLevel(profile),
+    headline: headline || "No accessibility information yet",
+    available,
+    unavailable: having(false),
+    unknown: having(null),
+    seating: profile.seating ? { value: profile.seating, label: SeatingLabels[profile.seating] } : null,
+    surface,
+    notes: profile.notes,
+    verified_at: profile.verified_at,
+    stale: !profile.verified_at || profile.verified_at < yearBefore(today),
+  };
+}
+
+// ============================================================================
+// QUERY
+// ============================================================================
+
+/**
+ * Read `accessibility_verified_since` from the query string. Features,
+ * seating and surface are facets (see facets.ts).
+ */
+export function parseAccessibilityQuery(params: QueryParams): AccessibilityQueryResult {
+  const since = params.accessibility_verified_since;
+  if (typeof since !== "string" || since === "") return { query: { verified_since: null } };
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(since)) {
+    return { error: `Invalid accessibility_verified_since "${since}". Use YYYY-MM-DD` };
+  }
+  return { query: { verified_since: since } };
+}
+
+/** Apply an accessibility query; order is kept. */
+export function applyAccessibilityQuery<T extends SheetEvent>(
+  events: T[],
+  query: AccessibilityQuery
+): T[] {
+  const since = query.verified_since;
+  if (!since) return events;
+  return events.filter((e) => e.accessibility.verified_at !== null && e.accessibility.verified_at >= since);
+}
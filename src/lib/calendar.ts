@@ -0,0 +1,185 @@
+/**
+ * Calendar Views
+ *
+ * Events laid out day by day for the /api/calendar endpoints (year, month,
+ * ISO week and custom ranges). An event is listed on every day it covers,
+ * not only on its start date, with flags for its first and last day, so a
+ * festival running 28 June to 3 July shows under both months.
+ *
+ * Event dates are local to Morocco. With a timezone, each day also carries
+ * the instants it starts and ends at there, so clients elsewhere can place
+ * it: Africa/Casablanca is UTC+1, but UTC+0 during Ramadan.
+ */
+
+import { getEventsInRange, type SheetEvent } from "./repository";
+import { MOROCCO_TIMEZONE, zonedMidnight } from "./dates";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/** An event on one of its days. */
+export type CalendarEntry = SheetEvent & {
+  is_start: boolean;
+  is_end: boolean;
+  // 1 on the first day
+  day_of_event: number;
+  event_days: number;
+};
+
+export interface DayBounds {
+  // ISO 8601 with the zone's UTC offset; ends_at is the next day's start
+  starts_at: string;
+  ends_at: string;
+}
+
+export interface CalendarView {
+  from: string;
+  to: string;
+  timezone: string | null;
+  // Occurrences overlapping the view, lunar events projected
+  events: SheetEvent[];
+  // Days with at least one event
+  events_by_date: Record<string, CalendarEntry[]>;
+  // Every day of the view, with a timezone only
+  day_bounds?: Record<string, DayBounds>;
+}
+
+export type TimezoneResult = { timezone: string | null } | { error: string };
+
+// Longest custom range
+export const MAX_RANGE_DAYS = 366;
+
+// ============================================================================
+// DATES
+// ============================================================================
+
+const MS_PER_DAY = 86400000;
+
+export function addDays(iso: string, days: number): string {
+  return new Date(Date.parse(iso) + days * MS_PER_DAY).toISOString().split("T")[0];
+}
+
+export function daysInclusive(from: string, to: string): number {
+  return Math.round((Date.parse(to) - Date.parse(from)) / MS_PER_DAY) + 1;
+}
+
+export function daysInMonth(year: number, month: number): number {
+  return new Date(Date.UTC(year, month, 0)).getUTCDate();
+}
+
+/** ISO 8601 week of a date, as "YYYY-Www". */
+export function isoWeek(iso: string): string {
+  const date = new Date(`${iso}T00:00:00Z`);
+  // The week belongs to the year of its Thursday
+  const thursday = new Date(date.getTime() + (3 - ((date.getUTCDay() + 6) % 7)) * MS_PER_DAY);
+  const yearStart = Date.UTC(thursday.getUTCFullYear(), 0, 1);
+  const week = Math.floor((thursday.getTime() - yearStart) / (7 * MS_PER_DAY)) + 1;
+  return `${thursday.getUTCFullYear()}-W${String(week).padStart(2, "0")}`;
+}
+
+/** The Monday starting the ISO week a date is in. */
+export function isoWeekStart(iso: string): string {
+  const day = new Date(`${iso}T00:00:00Z`).getUTCDay();
+  return addDays(iso, -((day + 6) % 7));
+}
+
+/**
+ * Monday and Sunday of an ISO week ("2026-W25"), or null when the week does
+ * not exist (W53 in a 52-week year).
+ */
+export function isoWeekRange(week: string): { from: string; to: string } | null {
+  const match = /^(\d{4})-W(\d{2})$/.exec(week);
+  if (!match) return null;
+
+  // 4 January is always in week 1
+  const week1 = isoWeekStart(`${match[1]}-01-04`);
+  const from = addDays(week1, (parseInt(match[2], 10) - 1) * 7);
+  if (isoWeek(from) !== week) return null;
+  return { from, to: addDays(from, 6) };
+}
+
+// ============================================================================
+// TIMEZONES
+// ============================================================================
+
+/** Read `tz` from the query string: an IANA zone, or none. */
+export function parseTimezone(value: unknown): TimezoneResult {
+  if (typeof value !== "string" || value === "") return { timezone: null };
+  try {
+    new Intl.DateTimeFormat("en", { timeZone: value });
+    return { timezone: value };
+  } catch {
+    return { error: `Invalid tz "${value}". Use an IANA zone such as ${MOROCCO_TIMEZONE}` };
+  }
+}
+
+// ============================================================================
+// VIEWS
+// ============================================================================
+
+/**
+ * Events overlapping [from, to], expanded onto every day they cover inside
+ * it. The flags are for the event as a whole: a festival that started before
+ * `from` has no `is_start` entry in the view.
+ */
+export function buildCalendarView(
+  events: SheetEvent[],
+  from: string,
+  to: string,
+  timezone: string | null = null
+): CalendarView {
+  const occurrences = getEventsInRange(events, from, to);
+  const byDate: Record<string, CalendarEntry[]> = {};
+
+  for (const event of occurrences) {
+    const end = event.end_date || event.start_date;
+    const eventDays = daysInclusive(event.start_date, end);
+    const first = event.start_date > from ? event.start_date : from;
+    const last = end < to ? end : to;
+
+    for (let day = first; day <= last; day = addDays(day, 1)) {
+      (byDate[day] ||= []).push({
+        ...event,
+        is_start: day === event.start_date,
+        is_end: day === end,
+        day_of_event: daysInclusive(event.start_date, day),
+        event_days: eventDays,
+      });
+    }
+  }
+
+  // Date order, as the loop above fills days event by event
+  const eventsByDate: Record<string, CalendarEntry[]> = {};
+  for (const date of Object.keys(byDate).sort()) eventsByDate[date] = byDate[date];
+
+  const view: CalendarView = { from, to, timezone, events: occurrences, events_by_date: eventsByDate };
+
+  if (timezone) {
+    view.day_bounds = {};
+    for (let day = from; day <= to; day = addDays(day, 1)) {
+      view.day_bounds[day] = {
+        starts_at: zonedMidnight(day, timezone),
+        ends_at: zonedMidnight(addDays(day, 1), timezone),
+      };
+    }
+  }
+
+  return view;
+}
+
+/** How many events are on in each month of a view ("2026-07": 4). */
+export function countByMonth(view: CalendarView): Record<string, number> {
+  const counts: Record<string, number> = {};
+  for (let day = view.from; day <= view.to; day = addDays(day, 1)) {
+    const month = day.slice(0, 7);
+    if (month in counts) continue;
+
+    const first = `${month}-01`;
+    const last = `${month}-${daysInMonth(parseInt(month.slice(0, 4), 10), parseInt(month.slice(5), 10))}`;
+    counts[month] = view.events.filter(
+      (e) => e.start_date <= last && (e.end_date || e.start_date) >= first
+    ).length;
+  }
+  return counts;
+}
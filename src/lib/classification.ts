@@ -0,0 +1,88 @@
+/**
+ * Event Classification
+ *
+ * Records carry a source `category` (music, heritage, food...) that says what
+ * an event is about, not what kind of event it is. This derives the
+ * taxonomy.ts EventType (festival, concert, moussem, lila, showcase,
+ * gathering) from the category, the title, the tags and the timing, and both
+ * are kept on the event: `category` as recorded, `event_type` derived.
+ *
+ * In order, the first rule that applies wins:
+ *
+ * 1. The title or tags name the type: "moussem", "lila", "concert", "salon"
+ * 2. The title says festival
+ * 3. Lunar and agricultural events are moussems
+ * 4. The category's default type
+ */
+
+import { EventType, TemporalType } from "./taxonomy";
+import { foldText } from "./text-analysis";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface ClassificationInput {
+  category: string;
+  title: string;
+  tags: string[];
+  temporal_type?: string | null;
+}
+
+export const EVENT_TYPES = Object.values(EventType) as EventType[];
+
+// Source categories and the type an event of each is by default
+export const CATEGORY_EVENT_TYPES: Record<string, EventType> = {
+  music: EventType.FESTIVAL,
+  art: EventType.FESTIVAL,
+  film: EventType.FESTIVAL,
+  heritage: EventType.GATHERING,
+  food: EventType.FESTIVAL,
+  spiritual: EventType.MOUSSEM,
+  dance: EventType.FESTIVAL,
+  theatre: EventType.FESTIVAL,
+  literature: EventType.FESTIVAL,
+  craft: EventType.SHOWCASE,
+};
+
+// Source categories a record may carry
+export const EVENT_CATEGORIES = Object.keys(CATEGORY_EVENT_TYPES);
+
+// Words in a title or tag that name the type (folded, lowercase)
+const TYPE_KEYWORDS: [RegExp, EventType][] = [
+  [/\bmoussems?\b|\bmawsim\b/, EventType.MOUSSEM],
+  [/\blila\b|\bderdba\b/, EventType.LILA],
+  [/\bconcerts?\b/, EventType.CONCERT],
+  [/\bsalon\b|\bshowcase\b|\btrade fair\b/, EventType.SHOWCASE],
+];
+
+const FESTIVAL = /\bfestivals?\b/;
+
+// ============================================================================
+// CLASSIFICATION
+// ============================================================================
+
+/** The taxonomy EventType of a record. */
+export function classifyEvent(input: ClassificationInput): EventType {
+  const title = foldText(input.title);
+  const words = [title, ...input.tags.map(foldText)];
+
+  for (const [pattern, type] of TYPE_KEYWORDS) {
+    if (words.some((w) => pattern.test(w))) return type;
+  }
+
+  if (FESTIVAL.test(title)) return EventType.FESTIVAL;
+
+  if (
+    input.temporal_type === TemporalType.LUNAR ||
+    input.temporal_type === TemporalType.AGRICULTURAL
+  ) {
+    return EventType.MOUSSEM;
+  }
+
+  return CATEGORY_EVENT_TYPES[(input.category || "").toLowerCase()] || EventType.FESTIVAL;
+}
+
+export function isEventType(value: unknown): value is EventType {
+  return typeof value === "string" && EVENT_TYPES.includes(value as EventType);
+}
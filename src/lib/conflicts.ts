@@ -0,0 +1,220 @@
+/**
+ * Clash Analysis
+ *
+ * Events whose dates overlap in the same city, the same region or the same
+ * tradition, for /api/conflicts. Two big festivals in one city the same week
+ * fill the hotels; two in one tradition split the audience and the artists.
+ * Each clash is weighted so editors see the ones that matter first, and the
+ * weeks with nothing on are reported too.
+ *
+ * A pair of events is one clash, at the closest scope they share: city, else
+ * region, else tradition. Traditions are the MUSIC_TRADITIONS ids the
+ * tradition tagger finds (tradition-tagger.ts), so "gnaoua" and "gnawa" are
+ * one tradition and a place named in the tags is not one.
+ */
+
+import { getEventsInRange, type SheetEvent } from "./repository";
+import { addDays, daysInclusive, isoWeek, isoWeekStart } from "./calendar";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type ClashScope = "city" | "region" | "tradition";
+
+export const CLASH_SCOPES: ClashScope[] = ["city", "region", "tradition"];
+
+export interface Clash {
+  // Stable for the same pair of occurrences
+  id: string;
+  scope: ClashScope;
+  events: [SheetEvent, SheetEvent];
+  // What the two events share
+  city: string | null;
+  region: string | null;
+  traditions: string[];
+  // Days both are on
+  overlap: { start: string; end: string; days: number };
+  // 0-10: the lesser event's significance, scaled by scope and by how much
+  // of the shorter event the overlap covers
+  weight: number;
+}
+
+export interface QuietWeek {
+  // ISO week, e.g. "2026-W07"
+  week: string;
+  start: string;
+  end: string;
+}
+
+export interface ConflictReport {
+  from: string;
+  to: string;
+  clashes: Clash[];
+  quiet_weeks: QuietWeek[];
+  // Clash ids by day, for marking a calendar
+  clash_dates: Record<string, string[]>;
+  events: number;
+}
+
+export interface ConflictOptions {
+  scopes?: ClashScope[];
+  // Leave out lighter clashes
+  minWeight?: number;
+}
+
+// A city clash competes for the same beds; a tradition clash only for the
+// same audience
+const SCOPE_WEIGHT: Record<ClashScope, number> = {
+  city: 1,
+  region: 0.6,
+  tradition: 0.4,
+};
+
+// ============================================================================
+// DATE HELPERS
+// ============================================================================
+
+function endDate(event: SheetEvent): string {
+  return event.end_date || event.start_date;
+}
+
+// An event's days inside [from, to]
+function clampedStart(event: SheetEvent, from: string): string {
+  return event.start_date < from ? from : event.start_date;
+}
+
+function clampedEnd(event: SheetEvent, to: string): string {
+  return endDate(event) > to ? to : endDate(event);
+}
+
+// ============================================================================
+// CLASHES
+// ============================================================================
+
+/** An event's traditions: the MUSIC_TRADITIONS ids it is tagged with. */
+export function eventTraditions(event: SheetEvent): string[] {
+  return event.traditions.map((t) => t.id);
+}
+
+function clashBetween(a: SheetEvent, b: SheetEvent, from: string, to: string): Clash | null {
+  const aStart = clampedStart(a, from);
+  const bStart = clampedStart(b, from);
+  const aEnd = clampedEnd(a, to);
+  const bEnd = clampedEnd(b, to);
+  const start = aStart > bStart ? aStart : bStart;
+  const end = aEnd < bEnd ? aEnd : bEnd;
+  if (start > end) return null;
+
+  const sameCity = !!a.city_slug && a.city_slug === b.city_slug;
+  const sameRegion = !!a.region_slug && a.region_slug === b.region_slug;
+  const bTraditions = eventTraditions(b);
+  const traditions = eventTraditions(a).filter((t) => bTraditions.includes(t));
+
+  const scope: ClashScope | null = sameCity
+    ? "city"
+    : sameRegion
+      ? "region"
+      : traditions.length > 0
+        ? "tradition"
+        : null;
+  if (!scope) return null;
+
+  const days = daysInclusive(start, end);
+  const shorter = Math.min(daysInclusive(aStart, aEnd), daysInclusive(bStart, bEnd));
+  const significance = Math.min(a.cultural_significance, b.cultural_significance);
+  const weight = significance * SCOPE_WEIGHT[scope] * (days / shorter);
+
+  // From the events' own dates, so the id does not depend on the window
+  const [first, second] = a.id < b.id ? [a, b] : [b, a];
+  return {
+    id: `${first.id}@${first.start_date}~${second.id}@${second.start_date}`,
+    scope,
+    events: [first, second],
+    city: sameCity ? a.city_slug : null,
+    region: sameRegion ? a.region_slug : null,
+    traditions,
+    overlap: { start, end, days },
+    weight: Math.round(weight * 10) / 10,
+  };
+}
+
+/**
+ * Clashes between occurrences overlapping [from, to], heaviest first. Only
+ * the part of an overlap inside the window is counted.
+ */
+export function findClashes(events: SheetEvent[], from: string, to: string): Clash[] {
+  const occurrences = getEventsInRange(events, from, to);
+
+  const clashes: Clash[] = [];
+  // Ordered by start: once b starts after a ends, no later event overlaps a
+  for (let i = 0; i < occurrences.length; i++) {
+    const a = occurrences[i];
+    for (let j = i + 1; j < occurrences.length; j++) {
+      const b = occurrences[j];
+      if (clampedStart(b, from) > clampedEnd(a, to)) break;
+      if (a.id === b.id) continue;
+      const clash = clashBetween(a, b, from, to);
+      if (clash) clashes.push(clash);
+    }
+  }
+
+  return clashes.sort(
+    (a, b) => b.weight - a.weight || a.overlap.start.localeCompare(b.overlap.start)
+  );
+}
+
+// ============================================================================
+// QUIET WEEKS
+// ============================================================================
+
+/** ISO weeks within [from, to] on which no event is on. */
+export function findQuietWeeks(events: SheetEvent[], from: string, to: string): QuietWeek[] {
+  const busy = new Set<string>();
+  for (const event of getEventsInRange(events, from, to)) {
+    const last = endDate(event) < to ? endDate(event) : to;
+    for (let day = event.start_date > from ? event.start_date : from; day <= last; day = addDays(day, 1)) {
+      busy.add(isoWeek(day));
+    }
+  }
+
+  const weeks: QuietWeek[] = [];
+  for (let monday = isoWeekStart(from); monday <= to; monday = addDays(monday, 7)) {
+    const week = isoWeek(monday);
+    if (!busy.has(week)) {
+      weeks.push({ week, start: monday, end: addDays(monday, 6) });
+    }
+  }
+  return weeks;
+}
+
+// ============================================================================
+// REPORT
+// ============================================================================
+
+export function buildConflictReport(
+  events: SheetEvent[],
+  from: string,
+  to: string,
+  { scopes = CLASH_SCOPES, minWeight = 0 }: ConflictOptions = {}
+): ConflictReport {
+  const clashes = findClashes(events, from, to).filter(
+    (c) => scopes.includes(c.scope) && c.weight >= minWeight
+  );
+
+  const clashDates: Record<string, string[]> = {};
+  for (const clash of clashes) {
+    for (let day = clash.overlap.start; day <= clash.overlap.end; day = addDays(day, 1)) {
+      (clashDates[day] ||= []).push(clash.id);
+    }
+  }
+
+  return {
+    from,
+    to,
+    clashes,
+    quiet_weeks: findQuietWeeks(events, from, to),
+    clash_dates: clashDates,
+    events: getEventsInRange(events, from, to).length,
+  };
+}
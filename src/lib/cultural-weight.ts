@@ -0,0 +1,259 @@
+/**
+ * Cultural Weight
+ *
+ * Proposes each event's cultural weight (taxonomy.ts CulturalWeightValue,
+ * 1-5) from what is known about it, and keeps the reasoning. The score is
+ * built on the 0-10 significance scale that ranking uses, one factor at a
+ * time:
+ *
+ * - A base of 2 for any documented event
+ * - Its strongest tradition: rooted 3, hybrid 2, imported 1; +1 when sacred,
+ *   +1 when UNESCO-inscribed
+ * - How long the festival has run: 10, 25 and 50 years add 1, 2 and 3
+ * - UNESCO inscription of the event itself: +3, and weight 5 at least
+ * - Event type minimums (MinimumWeightByEventType): a lila is weight 4 at least
+ *
+ * Editors can set the weight themselves with a rationale. Their value is
+ * stored and ranks the event, raised to the type minimum when it is below it;
+ * the proposal stays in the audit for comparison.
+ */
+
+import {
+  CulturalWeightDescriptions,
+  EventTypeLabels,
+  MinimumWeightByEventType,
+  MUSIC_TRADITIONS,
+  TraditionCategory,
+  TraditionCategoryLabels,
+  type CulturalWeightValue,
+  type EventType,
+} from "./taxonomy";
+import type { TraditionTag } from "./tradition-tagger";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type WeightFactorKind =
+  | "base"
+  | "tradition"
+  | "sacred"
+  | "unesco_tradition"
+  | "edition_age"
+  | "unesco"
+  | "minimum"
+  | "editor";
+
+export interface WeightFactor {
+  factor: WeightFactorKind;
+  // Significance points, on the 0-10 scale
+  points: number;
+  note: string;
+}
+
+export interface WeightAudit {
+  proposed_weight: CulturalWeightValue;
+  proposed_significance: number;
+  // "editor" when the stored weight was set by hand
+  source: "proposed" | "editor";
+  factors: WeightFactor[];
+}
+
+export interface WeightAssessment {
+  cultural_weight: CulturalWeightValue;
+  // 0-10, within the weight's band; drives the significance sort
+  cultural_significance: number;
+  weight_rationale: string;
+  weight_audit: WeightAudit;
+}
+
+export interface WeightInput {
+  event_type: EventType;
+  traditions: TraditionTag[];
+  edition_year: number | null;
+  first_edition?: number | null;
+  unesco_year?: number | null;
+  // Editor override: a 1-5 weight and why
+  override_weight?: number | null;
+  override_rationale?: string | null;
+}
+
+const BASE_POINTS = 2;
+
+// Traditions the tagger is less sure of (a passing mention) do not count
+const MIN_CONFIDENCE = 0.75;
+
+const CATEGORY_POINTS: Record<TraditionCategory, number> = {
+  [TraditionCategory.ROOTED]: 3,
+  [TraditionCategory.HYBRID]: 2,
+  [TraditionCategory.IMPORTED]: 1,
+};
+
+// Years the festival has run → points, longest first
+const AGE_POINTS: [number, number][] = [
+  [50, 3],
+  [25, 2],
+  [10, 1],
+];
+
+const MAX_SIGNIFICANCE = 10;
+
+// ============================================================================
+// WEIGHTS
+// ============================================================================
+
+export function isCulturalWeight(value: unknown): value is CulturalWeightValue {
+  return typeof value === "number" && Number.isInteger(value) && value >= 1 && value <= 5;
+}
+
+/** The 1-5 cultural weight of a 0-10 significance score. */
+export function culturalWeight(significance: number): CulturalWeightValue {
+  return Math.min(5, Math.max(1, Math.ceil(significance / 2))) as CulturalWeightValue;
+}
+
+// Lowest and highest significance with a given weight
+function significanceBand(weight: CulturalWeightValue): [number, number] {
+  return [Math.max(0, weight * 2 - 1), weight * 2];
+}
+
+/**
+ * Why a weight is too low for an event type (MinimumWeightByEventType), or
+ * null when it is not.
+ */
+export function checkMinimumWeight(type: EventType, weight: CulturalWeightValue): string | null {
+  const minimum = MinimumWeightByEventType[type];
+  if (minimum === undefined || weight >= minimum) return null;
+  return (
+    `a ${EventTypeLabels[type].toLowerCase()} needs cultural weight ${minimum} ` +
+    `(${CulturalWeightDescriptions[minimum].toLowerCase()}), not ${weight}`
+  );
+}
+
+// ============================================================================
+// SCORING
+// ============================================================================
+
+function traditionFactors(tags: TraditionTag[]): WeightFactor[] {
+  const traditions = tags
+    .filter((t) => t.confidence >= MIN_CONFIDENCE)
+    .map((t) => MUSIC_TRADITIONS[t.id])
+    .filter(Boolean);
+  if (traditions.length === 0) return [];
+
+  const strongest = traditions.reduce((best, t) =>
+    CATEGORY_POINTS[t.category] > CATEGORY_POINTS[best.category] ? t : best
+  );
+  const factors: WeightFactor[] = [
+    {
+      factor: "tradition",
+      points: CATEGORY_POINTS[strongest.category],
+      note: `features ${strongest.name} (${TraditionCategoryLabels[strongest.category].toLowerCase()})`,
+    },
+  ];
+
+  const sacred = traditions.find((t) => t.sacred);
+  if (sacred) {
+    factors.push({ factor: "sacred", points: 1, note: `${sacred.name} is sacred` });
+  }
+
+  const inscribed = traditions.find((t) => t.unesco_year);
+  if (inscribed) {
+    factors.push({
+      factor: "unesco_tradition",
+      points: 1,
+      note: `${inscribed.name} inscribed by UNESCO in ${inscribed.unesco_year}`,
+    });
+  }
+
+  return factors;
+}
+
+/**
+ * Propose a weight for an event and, when an editor has set one, store
+ * theirs instead. Factors are listed in the order they were applied.
+ */
+export function assessWeight(input: WeightInput): WeightAssessment {
+  const factors: WeightFactor[] = [
+    { factor: "base", points: BASE_POINTS, note: "documented event" },
+    ...traditionFactors(input.traditions),
+  ];
+
+  if (input.first_edition && input.edition_year) {
+    const years = input.edition_year - input.first_edition;
+    const age = AGE_POINTS.find(([min]) => years >= min);
+    if (age) {
+      factors.push({
+        factor: "edition_age",
+        points: age[1],
+        note: `running since ${input.first_edition} (${years} years)`,
+      });
+    }
+  }
+
+  if (input.unesco_year) {
+    factors.push({
+      factor: "unesco",
+      points: 3,
+      note: `inscribed by UNESCO in ${input.unesco_year}`,
+    });
+  }
+
+  let significance = Math.min(
+    MAX_SIGNIFICANCE,
+    factors.reduce((sum, f) => sum + f.points, 0)
+  );
+
+  // Floors: the type's minimum weight, and 5 for UNESCO-inscribed events
+  const typeMinimum = MinimumWeightByEventType[input.event_type];
+  const floor = input.unesco_year ? 5 : typeMinimum;
+  if (floor && culturalWeight(significance) < floor) {
+    const raised = significanceBand(floor)[0];
+    factors.push({
+      factor: "minimum",
+      points: raised - significance,
+      note: input.unesco_year
+        ? "UNESCO-inscribed events are weight 5"
+        : `a ${EventTypeLabels[input.event_type].toLowerCase()} is weight ${floor} at least`,
+    });
+    significance = raised;
+  }
+
+  const proposed = culturalWeight(significance);
+  const audit: WeightAudit = {
+    proposed_weight: proposed,
+    proposed_significance: significance,
+    source: "proposed",
+    factors,
+  };
+
+  if (isCulturalWeight(input.override_weight)) {
+    // An override cannot go below the type's minimum; it is raised to it
+    const belowMinimum = checkMinimumWeight(input.event_type, input.override_weight);
+    const weight = belowMinimum && typeMinimum ? typeMinimum : input.override_weight;
+    const [low, high] = significanceBand(weight);
+    const stored = Math.min(high, Math.max(low, significance));
+    const rationale = [
+      input.override_rationale?.trim() || "set by an editor",
+      belowMinimum && `raised to ${weight}: ${belowMinimum}`,
+    ]
+      .filter(Boolean)
+      .join("; ");
+    factors.push({ factor: "editor", points: stored - significance, note: rationale });
+    return {
+      cultural_weight: weight,
+      cultural_significance: stored,
+      weight_rationale: rationale,
+      weight_audit: { ...audit, source: "editor" },
+    };
+  }
+
+  return {
+    cultural_weight: proposed,
+    cultural_significance: significance,
+    weight_rationale: factors
+      .filter((f) => f.factor !== "base")
+      .map((f) => f.note)
+      .join("; ") || "no tradition, edition history or UNESCO recognition on record",
+    weight_audit: audit,
+  };
+}
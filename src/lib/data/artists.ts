@@ -0,0 +1,44 @@
+// Artists whose name alone says which traditions an event features, for the
+// tradition tagger. Names are matched after folding (case, accents), so
+// "Maâlem" and "Maalem" are one; values are MUSIC_TRADITIONS ids. No festival
+// record carries an artists list yet, so this only applies once lineups are
+// entered.
+export const artistTraditions: Record<string, string[]> = {
+  // Gnawa maalems
+  "Maalem Hamid El Kasri": ["gnawa"],
+  "Maalem Mahmoud Guinia": ["gnawa"],
+  "Maalem Mokhtar Gania": ["gnawa"],
+  "Maalem Abdeslam Alikane": ["gnawa"],
+  "Maalem Hassan Boussou": ["gnawa"],
+  "Maalem Mustapha Baqbou": ["gnawa"],
+
+  // Al-Ala orchestras
+  "Orchestre Mohamed Briouel": ["andalusi"],
+  "Orchestre Chekara": ["andalusi"],
+
+  // Souss and Atlas
+  "Fatima Tabaamrant": ["rways"],
+  "Oudaden": ["rways"],
+
+  // Aita and chaabi
+  "Hajja Hamdaouia": ["aita"],
+  "Najat Aatabou": ["chaabi"],
+  "Abdelaziz Stati": ["chaabi"],
+
+  // Nayda and hip-hop
+  "Hoba Hoba Spirit": ["nayda"],
+  "Darga": ["nayda"],
+  "Don Bigg": ["rap-ma"],
+  "Muslim": ["rap-ma"],
+  "ElGrande Toto": ["rap-ma"],
+
+  // Fusion
+  "Hindi Zahra": ["fusion"],
+  "Aziz Sahmaoui": ["fusion", "gnawa"],
+  "Majid Bekkas": ["fusion", "gnawa"],
+
+  // Sahara
+  "Tinariwen": ["desert-blues"],
+  "Tamikrest": ["desert-blues"],
+  "Bombino": ["desert-blues"],
+};
@@ -0,0 +1,12 @@
+// Dirhams (MAD) per unit of each currency prices can be shown in, for
+// pricing.ts. Rates are updated by hand from Bank Al-Maghrib's reference
+// rates, so converted prices are approximate; `exchangeRatesAsOf` is returned
+// with every conversion.
+export const exchangeRatesAsOf = "2026-10-01";
+
+export const madPerUnit: Record<string, number> = {
+  "MAD": 1,
+  "EUR": 10.55,
+  "USD": 9.15,
+  "GBP": 12.2,
+};
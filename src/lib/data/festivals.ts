@@ -1,6 +1,10 @@
-export const festivals = [
+import type { FestivalRow } from "../repository";
+
+export const festivals: FestivalRow[] = [
   {
     "id": "yennayer-2026",
+    "slug": "yennayer-2026",
+    "series_id": "yennayer",
     "title_en": "Yennayer Amazigh New Year",
     "title_fr": "Yennayer Nouvel An Amazigh",
     "title_es": "Yennayer Año Nuevo Amazigh",
@@ -29,10 +33,12 @@ export const festivals = [
     "wheelchair_access": false,
     "sign_language": false,
     "audio_description": false,
-    "status": "published"
+    "status": "announced"
   },
   {
     "id": "marrakech-marathon-2026",
+    "slug": "marrakech-marathon-2026",
+    "series_id": "marrakech-marathon",
     "title_en": "Marrakech International Marathon",
     "title_fr": "Marathon International de Marrakech",
     "title_es": "Maratón Internacional de Marrakech",
@@ -61,10 +67,12 @@ export const festivals = [
     "wheelchair_access": true,
     "sign_language": false,
     "audio_description": false,
-    "status": "published"
+    "status": "announced"
   },
   {
     "id": "1-54-marrakech-2026",
+    "slug": "1-54-marrakech-2026",
+    "series_id": "1-54-marrakech",
     "title_en": "1-54 Contemporary African Art Fair",
     "title_fr": "Foire d'Art Africain Contemporain 1-54",
     "title_es": "Feria de Arte Africano Contemporáneo 1-54",
@@ -93,10 +101,12 @@ export const festivals = [
     "wheelchair_access": true,
     "sign_language": false,
     "audio_description": true,
-    "status": "published"
+    "status": "announced"
   },
   {
     "id": "almond-blossom-2026",
+    "slug": "almond-blossom-2026",
+    "series_id": "almond-blossom",
     "title_en": "Almond Blossom Festival",
     "title_fr": "Festival des Amandiers en Fleurs",
     "title_es": "Festival de los Almendros en Flor",
@@ -111,6 +121,9 @@ export const festivals = [
     "venue": "Ameln Valley",
     "start_date": "2026-02-20",
     "end_date": "2026-02-22",
+    "temporal_type": "agricultural",
+    "season": "winter",
+    "recurrence_notes": "When the almond trees flower, usually mid-to-late February",
     "price_min": 0,
     "price_max": 0,
     "price_is_free": true,
@@ -125,10 +138,12 @@ export const festivals = [
     "wheelchair_access": false,
     "sign_language": false,
     "audio_description": false,
-    "status": "published"
+    "status": "announced"
   },
   {
     "id": "marrakech-biennale-2026",
+    "slug": "marrakech-biennale-2026",
+    "series_id": "marrakech-biennale",
     "title_en": "Marrakech Biennale",
     "title_fr": "Biennale de Marrakech",
     "title_es": "Bienal de Marrakech",
@@ -157,10 +172,12 @@ export const festivals = [
     "wheelchair_access": true,
     "sign_language": false,
     "audio_description": true,
-    "status": "published"
+    "status": "announced"
   },
   {
     "id": "national-film-tangier-2026",
+    "slug": "national-film-tangier-2026",
+    "series_id": "national-film-tangier",
     "title_en": "National Film Festival Tangier",
     "title_fr": "Festival National du Film de Tanger",
     "title_es": "Festival Nacional de Cine de Tánger",
@@ -189,10 +206,12 @@ export const festivals = [
     "wheelchair_access": true,
     "sign_language": true,
     "audio_description": true,
-    "status": "published"
+    "status": "announced"
   },
   {
     "id": "tetouan-film-2026",
+    "slug": "tetouan-film-2026",
+    "series_id": "tetouan-film",
     "title_en": "Mediterranean Short Film Festival",
     "title_fr": "Festival du Court Métrage Méditerranéen",
     "title_es": "Festival de Cortometrajes del Mediterráneo",
@@ -221,10 +240,12 @@ export const festivals = [
     "wheelchair_access": true,
     "sign_language": false,
     "audio_description": false,
-    "status": "published"
+    "status": "announced"
   },
   {
     "id": "merzouga-music-2026",
+    "slug": "merzouga-music-2026",
+    "series_id": "merzouga-music",
     "title_en": "International World Music Festival Merzouga",
     "title_fr": "Festival International de Musique du Monde de Merzouga",
     "title_es": "Festival Internacional de Música del Mundo de Merzouga",
@@ -253,10 +274,13 @@ export const festivals = [
     "wheelchair_access": false,
     "sign_language": false,
     "audio_description": false,
-    "status": "published"
+    "venue_surface": "sand",
+    "status": "announced"
   },
   {
     "id": "nomads-festival-2026",
+    "slug": "nomads-festival-2026",
+    "series_id": "nomads-festival",
     "title_en": "International Nomads Festival",
     "title_fr": "Festival International des Nomades",
     "title_es": "Festival Internacional de los Nómadas",
@@ -285,10 +309,13 @@ export const festivals = [
     "wheelchair_access": false,
     "sign_language": false,
     "audio_description": false,
-    "status": "published"
+    "venue_surface": "sand",
+    "status": "announced"
   },
   {
     "id": "marathon-sables-2026",
+    "slug": "marathon-sables-2026",
+    "series_id": "marathon-sables",
     "title_en": "Marathon des Sables",
     "title_fr": "Marathon des Sables",
     "title_es": "Maratón de las Arenas",
@@ -306,6 +333,7 @@ export const festivals = [
     "price_min": 3500,
     "price_max": 4500,
     "price_is_free": false,
+    "price_currency": "EUR",
     "image": "https://res.cloudinary.com/drstfu5yr/image/upload/v1769155754/11_f8rojg.png",
     "tags": "marathon,ultra,desert,sahara,extreme sports",
     "lat": 30.9189,
@@ -317,10 +345,14 @@ export const festivals = [
     "wheelchair_access": false,
     "sign_language": false,
     "audio_description": false,
-    "status": "published"
+    "venue_surface": "sand",
+    "accessibility_notes": "A self-sufficient desert stage race; spectators follow from the bivouacs, not the course",
+    "status": "announced"
   },
   {
     "id": "fes-food-2026",
+    "slug": "fes-food-2026",
+    "series_id": "fes-food",
     "title_en": "Fes Food Festival",
     "title_fr": "Festival Gastronomique de Fès",
     "title_es": "Festival Gastronómico de Fez",
@@ -349,10 +381,13 @@ export const festivals = [
     "wheelchair_access": true,
     "sign_language": false,
     "audio_description": false,
-    "status": "published"
+    "venue_surface": "cobbles",
+    "status": "announced"
   },
   {
     "id": "awake-marrakech-2026",
+    "slug": "awake-marrakech-2026",
+    "series_id": "awake-marrakech",
     "title_en": "Awake Festival Marrakech",
     "title_fr": "Festival Awake Marrakech",
     "title_es": "Festival Awake Marrakech",
@@ -381,10 +416,12 @@ export const festivals = [
     "wheelchair_access": true,
     "sign_language": false,
     "audio_description": false,
-    "status": "published"
+    "status": "announced"
   },
   {
     "id": "alegria-chefchaouen-2026",
+    "slug": "alegria-chefchaouen-2026",
+    "series_id": "alegria-chefchaouen",
     "title_en": "Alegria Festival",
     "title_fr": "Festival Alegria",
     "title_es": "Festival Alegría",
@@ -413,10 +450,13 @@ export const festivals = [
     "wheelchair_access": true,
     "sign_language": false,
     "audio_description": false,
-    "status": "published"
+    "venue_surface": "cobbles",
+    "status": "announced"
   },
   {
     "id": "rose-festival-2026",
+    "slug": "rose-festival-2026",
+    "series_id": "rose-festival",
     "title_en": "Rose Festival of Kelaat M'Gouna",
     "title_fr": "Festival des Roses de Kelaat M'Gouna",
     "title_es": "Festival de las Rosas de Kelaat M'Gouna",
@@ -431,6 +471,9 @@ export const festivals = [
     "venue": "Valley of Roses",
     "start_date": "2026-05-08",
     "end_date": "2026-05-10",
+    "temporal_type": "agricultural",
+    "season": "spring",
+    "recurrence_notes": "After the Damask rose harvest, usually early-mid May",
     "price_min": 0,
     "price_max": 0,
     "price_is_free": true,
@@ -445,10 +488,12 @@ export const festivals = [
     "wheelchair_access": false,
     "sign_language": false,
     "audio_description": false,
-    "status": "published"
+    "status": "announced"
   },
   {
     "id": "sbagha-bagha-2026",
+    "slug": "sbagha-bagha-2026",
+    "series_id": "sbagha-bagha",
     "title_en": "Sbagha Bagha Street Art Festival",
     "title_fr": "Festival d'Art Urbain Sbagha Bagha",
     "title_es": "Festival de Arte Urbano Sbagha Bagha",
@@ -477,10 +522,12 @@ export const festivals = [
     "wheelchair_access": true,
     "sign_language": false,
     "audio_description": false,
-    "status": "published"
+    "status": "announced"
   },
   {
     "id": "fes-sacred-music-2026",
+    "slug": "fes-sacred-music-2026",
+    "series_id": "fes-sacred-music",
     "title_en": "Fes Festival of World Sacred Music",
     "title_fr": "Festival de Fès des Musiques Sacrées du Monde",
     "title_es": "Festival de Fez de Música Sacra del Mundo",
@@ -509,10 +556,12 @@ export const festivals = [
     "wheelchair_access": false,
     "sign_language": false,
     "audio_description": false,
-    "status": "published"
+    "status": "announced"
   },
   {
     "id": "marrakech-du-rire-2026",
+    "slug": "marrakech-du-rire-2026",
+    "series_id": "marrakech-du-rire",
     "title_en": "Marrakech du Rire",
     "title_fr": "Marrakech du Rire",
     "title_es": "Marrakech du Rire",
@@ -541,10 +590,13 @@ export const festivals = [
     "wheelchair_access": true,
     "sign_language": true,
     "audio_description": false,
-    "status": "published"
+    "venue_surface": "indoor",
+    "status": "announced"
   },
   {
     "id": "cherry-festival-2026",
+    "slug": "cherry-festival-2026",
+    "series_id": "cherry-festival",
     "title_en": "Cherry Festival Sefrou",
     "title_fr": "Festival des Cerises de Sefrou",
     "title_es": "Festival de las Cerezas de Sefrou",
@@ -559,6 +611,9 @@ export const festivals = [
     "venue": "City Center",
     "start_date": "2026-06-12",
     "end_date": "2026-06-14",
+    "temporal_type": "agricultural",
+    "season": "summer",
+    "recurrence_notes": "After the cherry harvest, usually early-mid June",
     "price_min": 0,
     "price_max": 0,
     "price_is_free": true,
@@ -573,10 +628,12 @@ export const festivals = [
     "wheelchair_access": true,
     "sign_language": false,
     "audio_description": false,
-    "status": "published"
+    "status": "announced"
   },
   {
     "id": "mawazine-2026",
+    "slug": "mawazine-2026",
+    "series_id": "mawazine",
     "title_en": "Mawazine Rhythms of the World",
     "title_fr": "Mawazine Rythmes du Monde",
     "title_es": "Mawazine Ritmos del Mundo",
@@ -605,10 +662,12 @@ export const festivals = [
     "wheelchair_access": true,
     "sign_language": false,
     "audio_description": false,
-    "status": "published"
+    "status": "announced"
   },
   {
     "id": "gnaoua-2026",
+    "slug": "gnaoua-2026",
+    "series_id": "gnaoua",
     "title_en": "Gnaoua World Music Festival",
     "title_fr": "Festival Gnaoua Musiques du Monde",
     "title_es": "Festival de Música Gnaoua del Mundo",
@@ -637,10 +696,12 @@ export const festivals = [
     "wheelchair_access": true,
     "sign_language": false,
     "audio_description": false,
-    "status": "published"
+    "status": "announced"
   },
   {
     "id": "jazzablanca-2026",
+    "slug": "jazzablanca-2026",
+    "series_id": "jazzablanca",
     "title_en": "Jazzablanca Festival",
     "title_fr": "Festival Jazzablanca",
     "title_es": "Festival Jazzablanca",
@@ -658,6 +719,11 @@ export const festivals = [
     "price_min": 600,
     "price_max": 3000,
     "price_is_free": false,
+    "price_tiers": [
+      { "tier": "early_bird", "amount": 450, "until": "2026-05-31" },
+      { "tier": "day_pass", "amount": 600 },
+      { "tier": "full_pass", "amount": 3000 }
+    ],
     "image": "https://res.cloudinary.com/drstfu5yr/image/upload/v1769153019/24_o02sxs.png",
     "tags": "jazz,soul,funk,casablanca,international",
     "lat": 33.595,
@@ -669,10 +735,12 @@ export const festivals = [
     "wheelchair_access": true,
     "sign_language": false,
     "audio_description": false,
-    "status": "published"
+    "status": "announced"
   },
   {
     "id": "timitar-2026",
+    "slug": "timitar-2026",
+    "series_id": "timitar",
     "title_en": "Timitar Festival Agadir",
     "title_fr": "Festival Timitar Agadir",
     "title_es": "Festival Timitar Agadir",
@@ -701,10 +769,12 @@ export const festivals = [
     "wheelchair_access": true,
     "sign_language": false,
     "audio_description": false,
-    "status": "published"
+    "status": "announced"
   },
   {
     "id": "marrakech-popular-arts-2026",
+    "slug": "marrakech-popular-arts-2026",
+    "series_id": "marrakech-popular-arts",
     "title_en": "Marrakech Popular Arts Festival",
     "title_fr": "Festival des Arts Populaires de Marrakech",
     "title_es": "Festival de Artes Populares de Marrakech",
@@ -733,10 +803,12 @@ export const festivals = [
     "wheelchair_access": true,
     "sign_language": false,
     "audio_description": false,
-    "status": "published"
+    "status": "announced"
   },
   {
     "id": "asilah-arts-2026",
+    "slug": "asilah-arts-2026",
+    "series_id": "asilah-arts",
     "title_en": "Asilah International Cultural Festival",
     "title_fr": "Festival Culturel International d'Asilah",
     "title_es": "Festival Cultural Internacional de Asilah",
@@ -765,10 +837,13 @@ export const festivals = [
     "wheelchair_access": true,
     "sign_language": false,
     "audio_description": false,
-    "status": "published"
+    "venue_surface": "cobbles",
+    "status": "announced"
   },
   {
     "id": "camel-festival-2026",
+    "slug": "camel-festival-2026",
+    "series_id": "camel-festival",
     "title_en": "Camel Festival Guelmim",
     "title_fr": "Festival du Dromadaire de Guelmim",
     "title_es": "Festival del Dromedario de Guelmim",
@@ -797,10 +872,12 @@ export const festivals = [
     "wheelchair_access": false,
     "sign_language": false,
     "audio_description": false,
-    "status": "published"
+    "status": "announced"
   },
   {
     "id": "honey-festival-2026",
+    "slug": "honey-festival-2026",
+    "series_id": "honey-festival",
     "title_en": "Honey Festival Imouzzer",
     "title_fr": "Festival du Miel d'Imouzzer",
     "title_es": "Festival de la Miel de Imouzzer",
@@ -815,6 +892,9 @@ export const festivals = [
     "venue": "Village Center",
     "start_date": "2026-07-17",
     "end_date": "2026-07-20",
+    "temporal_type": "agricultural",
+    "season": "summer",
+    "recurrence_notes": "After the spring honey harvest, usually mid-July",
     "price_min": 0,
     "price_max": 0,
     "price_is_free": true,
@@ -829,10 +909,12 @@ export const festivals = [
     "wheelchair_access": false,
     "sign_language": false,
     "audio_description": false,
-    "status": "published"
+    "status": "announced"
   },
   {
     "id": "jidar-2026",
+    "slug": "jidar-2026",
+    "series_id": "jidar",
     "title_en": "Jidar Street Art Festival",
     "title_fr": "Festival d'Art Urbain Jidar",
     "title_es": "Festival de Arte Urbano Jidar",
@@ -861,10 +943,12 @@ export const festivals = [
     "wheelchair_access": true,
     "sign_language": false,
     "audio_description": false,
-    "status": "published"
+    "status": "announced"
   },
   {
     "id": "summer-oudayas-2026",
+    "slug": "summer-oudayas-2026",
+    "series_id": "summer-oudayas",
     "title_en": "Summer of Oudayas Festival",
     "title_fr": "Festival Été des Oudayas",
     "title_es": "Festival Verano de los Udayas",
@@ -893,10 +977,52 @@ export const festivals = [
     "wheelchair_access": true,
     "sign_language": false,
     "audio_description": false,
-    "status": "published"
+    "venue_surface": "cobbles",
+    "status": "announced"
+  },
+  {
+    "id": "moussem-candles-sale",
+    "slug": "moussem-candles-sale",
+    "title_en": "Moussem of the Candles, Salé",
+    "title_fr": "Moussem des Cierges de Salé",
+    "title_es": "Moussem de las Velas de Salé",
+    "title_ar": "موسم الشموع بسلا",
+    "description_en": "On the eve of the Mawlid, the Prophet's birthday, the candle-makers of Salé carry towering wax lanterns through the medina to the zawiya of Sidi Abdallah Ben Hassoun, escorted by Sufi brotherhoods, drums and ghaita.",
+    "description_fr": "À la veille du Mawlid, les artisans ciriers de Salé portent d'immenses lanternes de cire à travers la médina jusqu'à la zaouïa de Sidi Abdallah Ben Hassoun, accompagnés des confréries soufies, des tambours et des ghaïtas.",
+    "description_es": "En la víspera del Mawlid, los artesanos cereros de Salé llevan enormes linternas de cera por la medina hasta la zauía de Sidi Abdallah Ben Hassoun, acompañados de cofradías sufíes, tambores y ghaitas.",
+    "description_ar": "عشية المولد النبوي، يحمل صناع الشموع بسلا فوانيس شمعية ضخمة عبر المدينة العتيقة إلى زاوية سيدي عبد الله بن حسون، ترافقهم الطرق الصوفية والطبول والغيطة.",
+    "category": "spiritual",
+    "region": "rabat-sale-kenitra",
+    "city": "Salé",
+    "venue": "Medina of Salé",
+    "start_date": "",
+    "end_date": null,
+    "temporal_type": "lunar",
+    "islamic_month": 3,
+    "islamic_day": 11,
+    "duration_days": 1,
+    "recurrence_notes": "Eve of the Mawlid, 11 Rabi al-Awwal",
+    "price_min": 0,
+    "price_max": 0,
+    "price_is_free": true,
+    "image": null,
+    "tags": "moussem,mawlid,candles,procession,sufi,sale,medina",
+    "lat": 34.0372,
+    "lng": -6.8027,
+    "organizer": "Zaouia of Sidi Abdallah Ben Hassoun",
+    "website": null,
+    "email": null,
+    "phone": null,
+    "wheelchair_access": false,
+    "sign_language": false,
+    "audio_description": false,
+    "venue_surface": "cobbles",
+    "status": "announced"
   },
   {
     "id": "boulevard-2026",
+    "slug": "boulevard-2026",
+    "series_id": "boulevard",
     "title_en": "L'Boulevard Urban Music Festival",
     "title_fr": "Festival L'Boulevard Musiques Urbaines",
     "title_es": "Festival L'Boulevard Música Urbana",
@@ -925,10 +1051,12 @@ export const festivals = [
     "wheelchair_access": true,
     "sign_language": false,
     "audio_description": false,
-    "status": "published"
+    "status": "announced"
   },
   {
     "id": "tanjazz-2026",
+    "slug": "tanjazz-2026",
+    "series_id": "tanjazz",
     "title_en": "Tanjazz Festival",
     "title_fr": "Festival Tanjazz",
     "title_es": "Festival Tanjazz",
@@ -957,10 +1085,12 @@ export const festivals = [
     "wheelchair_access": true,
     "sign_language": false,
     "audio_description": false,
-    "status": "published"
+    "status": "announced"
   },
   {
     "id": "imilchil-2026",
+    "slug": "imilchil-2026",
+    "series_id": "imilchil",
     "title_en": "Imilchil Marriage Festival",
     "title_fr": "Festival des Fiançailles d'Imilchil",
     "title_es": "Festival de Compromiso de Imilchil",
@@ -975,6 +1105,9 @@ export const festivals = [
     "venue": "High Atlas Mountains",
     "start_date": "2026-09-18",
     "end_date": "2026-09-20",
+    "temporal_type": "agricultural",
+    "season": "autumn",
+    "recurrence_notes": "After the harvest, usually mid-September",
     "price_min": 0,
     "price_max": 0,
     "price_is_free": true,
@@ -989,10 +1122,12 @@ export const festivals = [
     "wheelchair_access": false,
     "sign_language": false,
     "audio_description": false,
-    "status": "published"
+    "status": "announced"
   },
   {
     "id": "jazz-chellah-2026",
+    "slug": "jazz-chellah-2026",
+    "series_id": "jazz-chellah",
     "title_en": "Jazz au Chellah",
     "title_fr": "Jazz au Chellah",
     "title_es": "Jazz au Chellah",
@@ -1021,10 +1156,12 @@ export const festivals = [
     "wheelchair_access": false,
     "sign_language": false,
     "audio_description": false,
-    "status": "published"
+    "status": "announced"
   },
   {
     "id": "sarab-2026",
+    "slug": "sarab-2026",
+    "series_id": "sarab",
     "title_en": "Sarab Festival",
     "title_fr": "Festival Sarab",
     "title_es": "Festival Sarab",
@@ -1053,10 +1190,12 @@ export const festivals = [
     "wheelchair_access": false,
     "sign_language": false,
     "audio_description": false,
-    "status": "published"
+    "status": "announced"
   },
   {
     "id": "moga-2026",
+    "slug": "moga-2026",
+    "series_id": "moga",
     "title_en": "MOGA Festival Essaouira",
     "title_fr": "Festival MOGA Essaouira",
     "title_es": "Festival MOGA Essaouira",
@@ -1085,10 +1224,12 @@ export const festivals = [
     "wheelchair_access": true,
     "sign_language": false,
     "audio_description": false,
-    "status": "published"
+    "status": "announced"
   },
   {
     "id": "atlantic-andalusia-2026",
+    "slug": "atlantic-andalusia-2026",
+    "series_id": "atlantic-andalusia",
     "title_en": "Atlantic Andalusia Festival",
     "title_fr": "Festival Andalousies Atlantiques",
     "title_es": "Festival Andalucías Atlánticas",
@@ -1117,10 +1258,12 @@ export const festivals = [
     "wheelchair_access": true,
     "sign_language": false,
     "audio_description": false,
-    "status": "published"
+    "status": "announced"
   },
   {
     "id": "oasis-2026",
+    "slug": "oasis-2026",
+    "series_id": "oasis",
     "title_en": "Oasis Festival Marrakech",
     "title_fr": "Festival Oasis Marrakech",
     "title_es": "Festival Oasis Marrakech",
@@ -1149,10 +1292,12 @@ export const festivals = [
     "wheelchair_access": true,
     "sign_language": false,
     "audio_description": false,
-    "status": "published"
+    "status": "announced"
   },
   {
     "id": "salon-cheval-2026",
+    "slug": "salon-cheval-2026",
+    "series_id": "salon-cheval",
     "title_en": "Salon du Cheval El Jadida",
     "title_fr": "Salon du Cheval d'El Jadida",
     "title_es": "Salón del Caballo de El Jadida",
@@ -1181,10 +1326,12 @@ export const festivals = [
     "wheelchair_access": true,
     "sign_language": false,
     "audio_description": false,
-    "status": "published"
+    "status": "announced"
   },
   {
     "id": "erfoud-dates-2026",
+    "slug": "erfoud-dates-2026",
+    "series_id": "erfoud-dates",
     "title_en": "Erfoud Date Festival",
     "title_fr": "Festival des Dattes d'Erfoud",
     "title_es": "Festival de los Dátiles de Erfoud",
@@ -1199,6 +1346,9 @@ export const festivals = [
     "venue": "City Center & Palm Groves",
     "start_date": "2026-10-22",
     "end_date": "2026-10-25",
+    "temporal_type": "agricultural",
+    "season": "autumn",
+    "recurrence_notes": "After the date harvest, usually late October",
     "price_min": 0,
     "price_max": 0,
     "price_is_free": true,
@@ -1213,10 +1363,12 @@ export const festivals = [
     "wheelchair_access": true,
     "sign_language": false,
     "audio_description": false,
-    "status": "published"
+    "status": "announced"
   },
   {
     "id": "taragalte-2026",
+    "slug": "taragalte-2026",
+    "series_id": "taragalte",
     "title_en": "Taragalte Festival",
     "title_fr": "Festival Taragalte",
     "title_es": "Festival Taragalte",
@@ -1245,10 +1397,13 @@ export const festivals = [
     "wheelchair_access": false,
     "sign_language": false,
     "audio_description": false,
-    "status": "published"
+    "venue_surface": "sand",
+    "status": "announced"
   },
   {
     "id": "visa-music-2026",
+    "slug": "visa-music-2026",
+    "series_id": "visa-music",
     "title_en": "Visa For Music",
     "title_fr": "Visa For Music",
     "title_es": "Visa For Music",
@@ -1277,10 +1432,12 @@ export const festivals = [
     "wheelchair_access": true,
     "sign_language": false,
     "audio_description": false,
-    "status": "published"
+    "status": "announced"
   },
   {
     "id": "marrakech-film-2026",
+    "slug": "marrakech-film-2026",
+    "series_id": "marrakech-film",
     "title_en": "Marrakech International Film Festival",
     "title_fr": "Festival International du Film de Marrakech",
     "title_es": "Festival Internacional de Cine de Marrakech",
@@ -1298,6 +1455,10 @@ export const festivals = [
     "price_min": 100,
     "price_max": 1000,
     "price_is_free": false,
+    "price_tiers": [
+      { "tier": "day_pass", "amount": 100 },
+      { "tier": "full_pass", "amount": 1000 }
+    ],
     "image": "https://res.cloudinary.com/drstfu5yr/image/upload/v1769149549/48_hdvwge.png",
     "tags": "cinema,film,red carpet,celebrities,international",
     "lat": 31.634,
@@ -1309,6 +1470,7 @@ export const festivals = [
     "wheelchair_access": true,
     "sign_language": true,
     "audio_description": true,
-    "status": "published"
+    "venue_surface": "indoor",
+    "status": "announced"
   }
-] as const;
+];
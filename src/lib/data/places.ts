@@ -0,0 +1,554 @@
+import type { PlaceRow } from "../gazetteer";
+
+// Moroccan cities, towns and villages that events take place in. `slug` is
+// the canonical city slug used in URLs; `aliases` are other spellings the
+// resolver accepts. Populations are from the 2014 census
+// (null where the census does not report the locality on its own).
+export const places: PlaceRow[] = [
+  {
+    "slug": "marrakech",
+    "kind": "city",
+    "name_en": "Marrakech",
+    "name_fr": "Marrakech",
+    "name_ar": "مراكش",
+    "name_tzm": "ⵎⵕⵕⴰⴽⵛ",
+    "aliases": ["Marrakesh", "Marrakch"],
+    "province": "Marrakech",
+    "region": "marrakech-safi",
+    "lat": 31.6295,
+    "lng": -7.9811,
+    "population": 928850
+  },
+  {
+    "slug": "essaouira",
+    "kind": "city",
+    "name_en": "Essaouira",
+    "name_fr": "Essaouira",
+    "name_ar": "الصويرة",
+    "name_tzm": "ⵜⴰⵚⵚⵓⵕⵜ",
+    "aliases": ["Mogador", "Souira"],
+    "province": "Essaouira",
+    "region": "marrakech-safi",
+    "lat": 31.5085,
+    "lng": -9.7595,
+    "population": 77966
+  },
+  {
+    "slug": "casablanca",
+    "kind": "city",
+    "name_en": "Casablanca",
+    "name_fr": "Casablanca",
+    "name_ar": "الدار البيضاء",
+    "name_tzm": "ⴰⵏⴼⴰ",
+    "aliases": ["Casa", "Dar el Beida", "Anfa"],
+    "province": "Casablanca",
+    "region": "casablanca-settat",
+    "lat": 33.5731,
+    "lng": -7.5898,
+    "population": 3359818
+  },
+  {
+    "slug": "rabat",
+    "kind": "city",
+    "name_en": "Rabat",
+    "name_fr": "Rabat",
+    "name_ar": "الرباط",
+    "name_tzm": "ⵕⵕⴱⴰⵟ",
+    "aliases": [],
+    "province": "Rabat",
+    "region": "rabat-sale-kenitra",
+    "lat": 34.0209,
+    "lng": -6.8416,
+    "population": 577827
+  },
+  {
+    "slug": "sale",
+    "kind": "city",
+    "name_en": "Salé",
+    "name_fr": "Salé",
+    "name_ar": "سلا",
+    "name_tzm": "ⵙⵍⴰ",
+    "aliases": ["Sale", "Sla"],
+    "province": "Salé",
+    "region": "rabat-sale-kenitra",
+    "lat": 34.0531,
+    "lng": -6.7985,
+    "population": 890403
+  },
+  {
+    "slug": "fes",
+    "kind": "city",
+    "name_en": "Fes",
+    "name_fr": "Fès",
+    "name_ar": "فاس",
+    "name_tzm": "ⴼⴰⵙ",
+    "aliases": ["Fez"],
+    "province": "Fès",
+    "region": "fes-meknes",
+    "lat": 34.0181,
+    "lng": -5.0078,
+    "population": 1112072
+  },
+  {
+    "slug": "agadir",
+    "kind": "city",
+    "name_en": "Agadir",
+    "name_fr": "Agadir",
+    "name_ar": "أكادير",
+    "name_tzm": "ⴰⴳⴰⴷⵉⵔ",
+    "aliases": [],
+    "province": "Agadir-Ida-Ou-Tanane",
+    "region": "souss-massa",
+    "lat": 30.4278,
+    "lng": -9.5981,
+    "population": 421844
+  },
+  {
+    "slug": "tangier",
+    "kind": "city",
+    "name_en": "Tangier",
+    "name_fr": "Tanger",
+    "name_ar": "طنجة",
+    "name_tzm": "ⵟⴰⵏⵊⴰ",
+    "aliases": ["Tanger", "Tangiers", "Tanja"],
+    "province": "Tanger-Assilah",
+    "region": "tanger-tetouan-al-hoceima",
+    "lat": 35.7595,
+    "lng": -5.834,
+    "population": 947952
+  },
+  {
+    "slug": "tetouan",
+    "kind": "city",
+    "name_en": "Tetouan",
+    "name_fr": "Tétouan",
+    "name_ar": "تطوان",
+    "name_tzm": "ⵜⵉⵟⵟⴰⵡⵉⵏ",
+    "aliases": ["Tetuan"],
+    "province": "Tétouan",
+    "region": "tanger-tetouan-al-hoceima",
+    "lat": 35.5784,
+    "lng": -5.3684,
+    "population": 380787
+  },
+  {
+    "slug": "chefchaouen",
+    "kind": "town",
+    "name_en": "Chefchaouen",
+    "name_fr": "Chefchaouen",
+    "name_ar": "شفشاون",
+    "name_tzm": "ⴰⵛⵛⴰⵡⵏ",
+    "aliases": ["Chaouen", "Xauen"],
+    "province": "Chefchaouen",
+    "region": "tanger-tetouan-al-hoceima",
+    "lat": 35.1688,
+    "lng": -5.2636,
+    "population": 42786
+  },
+  {
+    "slug": "el-jadida",
+    "kind": "city",
+    "name_en": "El Jadida",
+    "name_fr": "El Jadida",
+    "name_ar": "الجديدة",
+    "name_tzm": "ⵎⴰⵣⵉⴳⵏ",
+    "aliases": ["Mazagan"],
+    "province": "El Jadida",
+    "region": "casablanca-settat",
+    "lat": 33.2316,
+    "lng": -8.5007,
+    "population": 194934
+  },
+  {
+    "slug": "moulay-idriss-zerhoun",
+    "kind": "town",
+    "name_en": "Moulay Idriss Zerhoun",
+    "name_fr": "Moulay Idriss Zerhoun",
+    "name_ar": "مولاي إدريس زرهون",
+    "name_tzm": "ⵎⵓⵍⴰⵢ ⵉⴷⵔⵉⵙ ⵣⵔⵀⵓⵏ",
+    "aliases": ["Moulay Idriss", "Moulay Driss"],
+    "province": "Meknès",
+    "region": "fes-meknes",
+    "lat": 34.0553,
+    "lng": -5.5242,
+    "population": 11615
+  },
+  {
+    "slug": "tan-tan",
+    "kind": "town",
+    "name_en": "Tan-Tan",
+    "name_fr": "Tan-Tan",
+    "name_ar": "طانطان",
+    "name_tzm": "ⵟⴰⵏⵟⴰⵏ",
+    "aliases": ["Tantan"],
+    "province": "Tan-Tan",
+    "region": "guelmim-oued-noun",
+    "lat": 28.438,
+    "lng": -11.1031,
+    "population": 73209
+  },
+  {
+    "slug": "merzouga",
+    "kind": "village",
+    "name_en": "Merzouga",
+    "name_fr": "Merzouga",
+    "name_ar": "مرزوكة",
+    "name_tzm": "ⵎⵔⵣⵓⴳⴰ",
+    "aliases": [],
+    "province": "Errachidia",
+    "region": "draa-tafilalet",
+    "lat": 31.0801,
+    "lng": -4.0134,
+    "population": null
+  },
+  {
+    "slug": "imilchil",
+    "kind": "village",
+    "name_en": "Imilchil",
+    "name_fr": "Imilchil",
+    "name_ar": "إملشيل",
+    "name_tzm": "ⵉⵎⵉⵍⵛⵉⵍ",
+    "aliases": [],
+    "province": "Midelt",
+    "region": "draa-tafilalet",
+    "lat": 32.1528,
+    "lng": -5.6292,
+    "population": null
+  },
+  {
+    "slug": "ouarzazate",
+    "kind": "city",
+    "name_en": "Ouarzazate",
+    "name_fr": "Ouarzazate",
+    "name_ar": "ورزازات",
+    "name_tzm": "ⵡⴰⵔⵣⴰⵣⴰⵜ",
+    "aliases": ["Warzazat"],
+    "province": "Ouarzazate",
+    "region": "draa-tafilalet",
+    "lat": 30.9189,
+    "lng": -6.8936,
+    "population": 71067
+  },
+  {
+    "slug": "erfoud",
+    "kind": "town",
+    "name_en": "Erfoud",
+    "name_fr": "Erfoud",
+    "name_ar": "أرفود",
+    "name_tzm": "ⴰⵔⴼⵓⴷ",
+    "aliases": ["Arfoud"],
+    "province": "Errachidia",
+    "region": "draa-tafilalet",
+    "lat": 31.4314,
+    "lng": -4.2286,
+    "population": 23637
+  },
+  {
+    "slug": "mhamid",
+    "kind": "village",
+    "name_en": "M'Hamid El Ghizlane",
+    "name_fr": "M'Hamid El Ghizlane",
+    "name_ar": "امحاميد الغزلان",
+    "name_tzm": "ⵎⵃⴰⵎⵉⴷ ⵍⵖⵉⵣⵍⴰⵏ",
+    "aliases": ["M'Hamid", "Mhamid"],
+    "province": "Zagora",
+    "region": "draa-tafilalet",
+    "lat": 29.8256,
+    "lng": -5.7231,
+    "population": null
+  },
+  {
+    "slug": "asilah",
+    "kind": "town",
+    "name_en": "Asilah",
+    "name_fr": "Asilah",
+    "name_ar": "أصيلة",
+    "name_tzm": "ⴰⵚⵉⵍⴰ",
+    "aliases": ["Assilah", "Arcila"],
+    "province": "Tanger-Assilah",
+    "region": "tanger-tetouan-al-hoceima",
+    "lat": 35.4653,
+    "lng": -6.0341,
+    "population": 31147
+  },
+  {
+    "slug": "ifrane",
+    "kind": "town",
+    "name_en": "Ifrane",
+    "name_fr": "Ifrane",
+    "name_ar": "إفران",
+    "name_tzm": "ⵉⴼⵔⴰⵏ",
+    "aliases": [],
+    "province": "Ifrane",
+    "region": "fes-meknes",
+    "lat": 33.5228,
+    "lng": -5.1109,
+    "population": 14659
+  },
+  {
+    "slug": "kelaat-mgouna",
+    "kind": "town",
+    "name_en": "Kelaat M'Gouna",
+    "name_fr": "Kelâat M'Gouna",
+    "name_ar": "قلعة مكونة",
+    "name_tzm": "ⵇⵍⵄⴰⵜ ⵎⴳⵓⵏⴰ",
+    "aliases": ["El Kelaa M'Gouna", "Kalaat Mgouna"],
+    "province": "Tinghir",
+    "region": "draa-tafilalet",
+    "lat": 31.2369,
+    "lng": -6.1297,
+    "population": 16487
+  },
+  {
+    "slug": "tafraoute",
+    "kind": "village",
+    "name_en": "Tafraoute",
+    "name_fr": "Tafraout",
+    "name_ar": "تافراوت",
+    "name_tzm": "ⵜⴰⴼⵔⴰⵡⵜ",
+    "aliases": ["Tafraout"],
+    "province": "Tiznit",
+    "region": "souss-massa",
+    "lat": 29.7211,
+    "lng": -8.9753,
+    "population": null
+  },
+  {
+    "slug": "sefrou",
+    "kind": "town",
+    "name_en": "Sefrou",
+    "name_fr": "Sefrou",
+    "name_ar": "صفرو",
+    "name_tzm": "ⵚⴼⵔⵓ",
+    "aliases": [],
+    "province": "Sefrou",
+    "region": "fes-meknes",
+    "lat": 33.8306,
+    "lng": -4.8353,
+    "population": 79887
+  },
+  {
+    "slug": "meknes",
+    "kind": "city",
+    "name_en": "Meknes",
+    "name_fr": "Meknès",
+    "name_ar": "مكناس",
+    "name_tzm": "ⴰⵎⴽⵏⴰⵙ",
+    "aliases": ["Miknas"],
+    "province": "Meknès",
+    "region": "fes-meknes",
+    "lat": 33.8731,
+    "lng": -5.5407,
+    "population": 632079
+  },
+  {
+    "slug": "oujda",
+    "kind": "city",
+    "name_en": "Oujda",
+    "name_fr": "Oujda",
+    "name_ar": "وجدة",
+    "name_tzm": "ⵡⵓⵊⴷⴰ",
+    "aliases": [],
+    "province": "Oujda-Angad",
+    "region": "oriental",
+    "lat": 34.6867,
+    "lng": -1.9114,
+    "population": 494252
+  },
+  {
+    "slug": "taza",
+    "kind": "city",
+    "name_en": "Taza",
+    "name_fr": "Taza",
+    "name_ar": "تازة",
+    "name_tzm": "ⵜⴰⵣⴰ",
+    "aliases": [],
+    "province": "Taza",
+    "region": "fes-meknes",
+    "lat": 34.2133,
+    "lng": -4.0103,
+    "population": 148456
+  },
+  {
+    "slug": "zagora",
+    "kind": "town",
+    "name_en": "Zagora",
+    "name_fr": "Zagora",
+    "name_ar": "زاكورة",
+    "name_tzm": "ⵣⴰⴳⵓⵔⴰ",
+    "aliases": [],
+    "province": "Zagora",
+    "region": "draa-tafilalet",
+    "lat": 30.3314,
+    "lng": -5.8381,
+    "population": 40069
+  },
+  {
+    "slug": "taroudant",
+    "kind": "town",
+    "name_en": "Taroudant",
+    "name_fr": "Taroudant",
+    "name_ar": "تارودانت",
+    "name_tzm": "ⵜⴰⵔⵓⴷⴰⵏⵜ",
+    "aliases": ["Taroudannt"],
+    "province": "Taroudant",
+    "region": "souss-massa",
+    "lat": 30.4706,
+    "lng": -8.8769,
+    "population": 80149
+  },
+  {
+    "slug": "tiznit",
+    "kind": "town",
+    "name_en": "Tiznit",
+    "name_fr": "Tiznit",
+    "name_ar": "تيزنيت",
+    "name_tzm": "ⵜⵉⵣⵏⵉⵜ",
+    "aliases": [],
+    "province": "Tiznit",
+    "region": "souss-massa",
+    "lat": 29.6974,
+    "lng": -9.7316,
+    "population": 74699
+  },
+  {
+    "slug": "dakhla",
+    "kind": "city",
+    "name_en": "Dakhla",
+    "name_fr": "Dakhla",
+    "name_ar": "الداخلة",
+    "name_tzm": "ⴷⴷⴰⵅⵍⴰ",
+    "aliases": ["Villa Cisneros", "Ad Dakhla"],
+    "province": "Oued Ed-Dahab",
+    "region": "dakhla-oued-ed-dahab",
+    "lat": 23.6848,
+    "lng": -15.958,
+    "population": 106277
+  },
+  {
+    "slug": "laayoune",
+    "kind": "city",
+    "name_en": "Laayoune",
+    "name_fr": "Laâyoune",
+    "name_ar": "العيون",
+    "name_tzm": "ⵍⵄⵢⵓⵏ",
+    "aliases": ["El Aaiun", "Layoune"],
+    "province": "Laâyoune",
+    "region": "laayoune-sakia-el-hamra",
+    "lat": 27.1536,
+    "lng": -13.2033,
+    "population": 217732
+  },
+  {
+    "slug": "nador",
+    "kind": "city",
+    "name_en": "Nador",
+    "name_fr": "Nador",
+    "name_ar": "الناظور",
+    "name_tzm": "ⵏⴰⴷⵓⵔ",
+    "aliases": [],
+    "province": "Nador",
+    "region": "oriental",
+    "lat": 35.1681,
+    "lng": -2.9287,
+    "population": 161726
+  },
+  {
+    "slug": "al-hoceima",
+    "kind": "city",
+    "name_en": "Al Hoceima",
+    "name_fr": "Al Hoceïma",
+    "name_ar": "الحسيمة",
+    "name_tzm": "ⵍⵃⵓⵙⵉⵎⴰ",
+    "aliases": ["Alhucemas", "Hoceima"],
+    "province": "Al Hoceïma",
+    "region": "tanger-tetouan-al-hoceima",
+    "lat": 35.2517,
+    "lng": -3.9372,
+    "population": 56716
+  },
+  {
+    "slug": "saidia",
+    "kind": "town",
+    "name_en": "Saidia",
+    "name_fr": "Saïdia",
+    "name_ar": "السعيدية",
+    "name_tzm": "ⵙⵄⵉⴷⵉⵢⴰ",
+    "aliases": [],
+    "province": "Berkane",
+    "region": "oriental",
+    "lat": 35.0867,
+    "lng": -2.3347,
+    "population": 8780
+  },
+  {
+    "slug": "beni-mellal",
+    "kind": "city",
+    "name_en": "Beni Mellal",
+    "name_fr": "Béni Mellal",
+    "name_ar": "بني ملال",
+    "name_tzm": "ⴰⵢⵜ ⵎⵍⵍⴰⵍ",
+    "aliases": [],
+    "province": "Béni Mellal",
+    "region": "beni-mellal-khenifra",
+    "lat": 32.3373,
+    "lng": -6.3498,
+    "population": 192676
+  },
+  {
+    "slug": "khouribga",
+    "kind": "city",
+    "name_en": "Khouribga",
+    "name_fr": "Khouribga",
+    "name_ar": "خريبكة",
+    "name_tzm": "ⵅⵔⵉⴱⴳⴰ",
+    "aliases": [],
+    "province": "Khouribga",
+    "region": "beni-mellal-khenifra",
+    "lat": 32.8811,
+    "lng": -6.9063,
+    "population": 196196
+  },
+  {
+    "slug": "settat",
+    "kind": "city",
+    "name_en": "Settat",
+    "name_fr": "Settat",
+    "name_ar": "سطات",
+    "name_tzm": "ⵙⵟⵟⴰⵜ",
+    "aliases": [],
+    "province": "Settat",
+    "region": "casablanca-settat",
+    "lat": 33.0017,
+    "lng": -7.6167,
+    "population": 142250
+  },
+  {
+    "slug": "guelmim",
+    "kind": "city",
+    "name_en": "Guelmim",
+    "name_fr": "Guelmim",
+    "name_ar": "كلميم",
+    "name_tzm": "ⴳⵍⵎⵉⵎ",
+    "aliases": ["Goulimine", "Guelmime"],
+    "province": "Guelmim",
+    "region": "guelmim-oued-noun",
+    "lat": 28.987,
+    "lng": -10.0574,
+    "population": 118318
+  },
+  {
+    "slug": "imouzzer-ida-outanane",
+    "kind": "village",
+    "name_en": "Imouzzer Ida-Outanane",
+    "name_fr": "Imouzzer Ida Outanane",
+    "name_ar": "إموزار إداوتنان",
+    "name_tzm": "ⵉⵎⵓⵣⵣⴰⵔ ⵉⴷⴰ ⵓⵜⴰⵏⴰⵏ",
+    "aliases": ["Imouzzer", "Immouzer"],
+    "province": "Agadir-Ida-Ou-Tanane",
+    "region": "souss-massa",
+    "lat": 30.6717,
+    "lng": -9.48,
+    "population": null
+  }
+];
@@ -0,0 +1,336 @@
+import type { SeriesRow } from "../series";
+
+// Recurring festivals. Each yearly record in festivals.ts points at its series
+// through `series_id`; editions that no longer have a full record are kept in
+// `past_editions` so the history survives from one season to the next.
+// `first_edition` is the year the festival was founded, where known;
+// `unesco_year` the year UNESCO inscribed the festival itself as heritage.
+export const festivalSeries: SeriesRow[] = [
+  {
+    "id": "yennayer",
+    "name": "Yennayer Amazigh New Year",
+    "city": "Agadir",
+    "past_editions": []
+  },
+  {
+    "id": "marrakech-marathon",
+    "name": "Marrakech International Marathon",
+    "city": "Marrakech",
+    "first_edition": 1987,
+    "past_editions": []
+  },
+  {
+    "id": "1-54-marrakech",
+    "name": "1-54 Contemporary African Art Fair",
+    "city": "Marrakech",
+    "first_edition": 2018,
+    "past_editions": []
+  },
+  {
+    "id": "almond-blossom",
+    "name": "Almond Blossom Festival",
+    "city": "Tafraoute",
+    "past_editions": []
+  },
+  {
+    "id": "marrakech-biennale",
+    "name": "Marrakech Biennale",
+    "city": "Marrakech",
+    "past_editions": []
+  },
+  {
+    "id": "national-film-tangier",
+    "name": "National Film Festival Tangier",
+    "city": "Tangier",
+    "first_edition": 1982,
+    "past_editions": []
+  },
+  {
+    "id": "tetouan-film",
+    "name": "Mediterranean Short Film Festival",
+    "city": "Tetouan",
+    "past_editions": []
+  },
+  {
+    "id": "merzouga-music",
+    "name": "International World Music Festival Merzouga",
+    "city": "Merzouga",
+    "past_editions": []
+  },
+  {
+    "id": "nomads-festival",
+    "name": "International Nomads Festival",
+    "city": "M'Hamid El Ghizlane",
+    "first_edition": 2004,
+    "past_editions": []
+  },
+  {
+    "id": "marathon-sables",
+    "name": "Marathon des Sables",
+    "city": "Ouarzazate",
+    "first_edition": 1986,
+    "past_editions": []
+  },
+  {
+    "id": "fes-food",
+    "name": "Fes Food Festival",
+    "city": "Fes",
+    "past_editions": []
+  },
+  {
+    "id": "awake-marrakech",
+    "name": "Awake Festival Marrakech",
+    "city": "Marrakech",
+    "past_editions": []
+  },
+  {
+    "id": "alegria-chefchaouen",
+    "name": "Alegria Festival",
+    "city": "Chefchaouen",
+    "past_editions": []
+  },
+  {
+    "id": "rose-festival",
+    "name": "Rose Festival of Kelaat M'Gouna",
+    "city": "Kelaat M'Gouna",
+    "past_editions": []
+  },
+  {
+    "id": "sbagha-bagha",
+    "name": "Sbagha Bagha Street Art Festival",
+    "city": "Casablanca",
+    "past_editions": []
+  },
+  {
+    "id": "fes-sacred-music",
+    "name": "Fes Festival of World Sacred Music",
+    "city": "Fes",
+    "first_edition": 1994,
+    "past_editions": [
+      {
+        "year": 2025,
+        "start_date": "2025-06-06",
+        "end_date": "2025-06-14"
+      }
+    ]
+  },
+  {
+    "id": "marrakech-du-rire",
+    "name": "Marrakech du Rire",
+    "city": "Marrakech",
+    "first_edition": 2011,
+    "past_editions": []
+  },
+  {
+    "id": "cherry-festival",
+    "name": "Cherry Festival Sefrou",
+    "city": "Sefrou",
+    "first_edition": 1920,
+    "unesco_year": 2012,
+    "past_editions": []
+  },
+  {
+    "id": "mawazine",
+    "name": "Mawazine Rhythms of the World",
+    "city": "Rabat",
+    "first_edition": 2001,
+    "past_editions": [
+      {
+        "year": 2025,
+        "start_date": "2025-06-20",
+        "end_date": "2025-06-28"
+      }
+    ]
+  },
+  {
+    "id": "gnaoua",
+    "name": "Gnaoua World Music Festival",
+    "city": "Essaouira",
+    "first_edition": 1998,
+    "past_editions": [
+      {
+        "year": 2025,
+        "start_date": "2025-06-26",
+        "end_date": "2025-06-29"
+      }
+    ]
+  },
+  {
+    "id": "jazzablanca",
+    "name": "Jazzablanca Festival",
+    "city": "Casablanca",
+    "first_edition": 2006,
+    "past_editions": [
+      {
+        "year": 2025,
+        "start_date": "2025-07-03",
+        "end_date": "2025-07-05"
+      }
+    ]
+  },
+  {
+    "id": "timitar",
+    "name": "Timitar Festival Agadir",
+    "city": "Agadir",
+    "first_edition": 2004,
+    "past_editions": [
+      {
+        "year": 2025,
+        "start_date": "2025-07-10",
+        "end_date": "2025-07-13"
+      }
+    ]
+  },
+  {
+    "id": "marrakech-popular-arts",
+    "name": "Marrakech Popular Arts Festival",
+    "city": "Marrakech",
+    "first_edition": 1960,
+    "past_editions": []
+  },
+  {
+    "id": "asilah-arts",
+    "name": "Asilah International Cultural Festival",
+    "city": "Asilah",
+    "first_edition": 1978,
+    "past_editions": []
+  },
+  {
+    "id": "camel-festival",
+    "name": "Camel Festival Guelmim",
+    "city": "Guelmim",
+    "past_editions": []
+  },
+  {
+    "id": "honey-festival",
+    "name": "Honey Festival Imouzzer",
+    "city": "Imouzzer Ida-Outanane",
+    "past_editions": []
+  },
+  {
+    "id": "jidar",
+    "name": "Jidar Street Art Festival",
+    "city": "Rabat",
+    "past_editions": []
+  },
+  {
+    "id": "summer-oudayas",
+    "name": "Summer of Oudayas Festival",
+    "city": "Rabat",
+    "past_editions": []
+  },
+  {
+    "id": "boulevard",
+    "name": "L'Boulevard Urban Music Festival",
+    "city": "Casablanca",
+    "first_edition": 1999,
+    "past_editions": [
+      {
+        "year": 2025,
+        "start_date": "2025-09-26",
+        "end_date": "2025-09-28"
+      }
+    ]
+  },
+  {
+    "id": "tanjazz",
+    "name": "Tanjazz Festival",
+    "city": "Tangier",
+    "first_edition": 2000,
+    "past_editions": [
+      {
+        "year": 2025,
+        "start_date": "2025-09-18",
+        "end_date": "2025-09-21"
+      }
+    ]
+  },
+  {
+    "id": "imilchil",
+    "name": "Imilchil Marriage Festival",
+    "city": "Imilchil",
+    "past_editions": [
+      {
+        "year": 2025,
+        "start_date": "2025-09-18",
+        "end_date": "2025-09-20"
+      }
+    ]
+  },
+  {
+    "id": "jazz-chellah",
+    "name": "Jazz au Chellah",
+    "city": "Rabat",
+    "first_edition": 1996,
+    "past_editions": []
+  },
+  {
+    "id": "sarab",
+    "name": "Sarab Festival",
+    "city": "Marrakech",
+    "past_editions": []
+  },
+  {
+    "id": "moga",
+    "name": "MOGA Festival Essaouira",
+    "city": "Essaouira",
+    "past_editions": []
+  },
+  {
+    "id": "atlantic-andalusia",
+    "name": "Atlantic Andalusia Festival",
+    "city": "Tangier",
+    "past_editions": []
+  },
+  {
+    "id": "oasis",
+    "name": "Oasis Festival Marrakech",
+    "city": "Marrakech",
+    "past_editions": [
+      {
+        "year": 2025,
+        "start_date": "2025-09-12",
+        "end_date": "2025-09-14"
+      }
+    ]
+  },
+  {
+    "id": "salon-cheval",
+    "name": "Salon du Cheval El Jadida",
+    "city": "El Jadida",
+    "past_editions": []
+  },
+  {
+    "id": "erfoud-dates",
+    "name": "Erfoud Date Festival",
+    "city": "Erfoud",
+    "past_editions": []
+  },
+  {
+    "id": "taragalte",
+    "name": "Taragalte Festival",
+    "city": "M'Hamid El Ghizlane",
+    "first_edition": 2010,
+    "past_editions": []
+  },
+  {
+    "id": "visa-music",
+    "name": "Visa For Music",
+    "city": "Rabat",
+    "first_edition": 2014,
+    "past_editions": [
+      {
+        "year": 2025,
+        "start_date": "2025-11-19",
+        "end_date": "2025-11-22"
+      }
+    ]
+  },
+  {
+    "id": "marrakech-film",
+    "name": "Marrakech International Film Festival",
+    "city": "Marrakech",
+    "first_edition": 2001,
+    "past_editions": []
+  }
+];
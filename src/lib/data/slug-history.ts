@@ -0,0 +1,212 @@
+import type { SlugHistoryEntry } from "../repository";
+
+// Retired event slugs. Each entry permanently redirects to the current slug of
+// the event it names. Append an entry whenever an event's slug changes; never
+// remove one, since partner links and bookmarks keep using old slugs.
+export const slugHistory: SlugHistoryEntry[] = [
+  {
+    "slug": "yennayer-amazigh-new-year",
+    "event_id": "yennayer-2026",
+    "retired_at": "2026-10-19"
+  },
+  {
+    "slug": "marrakech-international-marathon",
+    "event_id": "marrakech-marathon-2026",
+    "retired_at": "2026-10-19"
+  },
+  {
+    "slug": "1-54-contemporary-african-art-fair",
+    "event_id": "1-54-marrakech-2026",
+    "retired_at": "2026-10-19"
+  },
+  {
+    "slug": "almond-blossom-festival",
+    "event_id": "almond-blossom-2026",
+    "retired_at": "2026-10-19"
+  },
+  {
+    "slug": "marrakech-biennale",
+    "event_id": "marrakech-biennale-2026",
+    "retired_at": "2026-10-19"
+  },
+  {
+    "slug": "national-film-festival-tangier",
+    "event_id": "national-film-tangier-2026",
+    "retired_at": "2026-10-19"
+  },
+  {
+    "slug": "mediterranean-short-film-festival",
+    "event_id": "tetouan-film-2026",
+    "retired_at": "2026-10-19"
+  },
+  {
+    "slug": "international-world-music-festival-merzouga",
+    "event_id": "merzouga-music-2026",
+    "retired_at": "2026-10-19"
+  },
+  {
+    "slug": "international-nomads-festival",
+    "event_id": "nomads-festival-2026",
+    "retired_at": "2026-10-19"
+  },
+  {
+    "slug": "marathon-des-sables",
+    "event_id": "marathon-sables-2026",
+    "retired_at": "2026-10-19"
+  },
+  {
+    "slug": "fes-food-festival",
+    "event_id": "fes-food-2026",
+    "retired_at": "2026-10-19"
+  },
+  {
+    "slug": "awake-festival-marrakech",
+    "event_id": "awake-marrakech-2026",
+    "retired_at": "2026-10-19"
+  },
+  {
+    "slug": "alegria-festival",
+    "event_id": "alegria-chefchaouen-2026",
+    "retired_at": "2026-10-19"
+  },
+  {
+    "slug": "rose-festival-of-kelaat-m-gouna",
+    "event_id": "rose-festival-2026",
+    "retired_at": "2026-10-19"
+  },
+  {
+    "slug": "sbagha-bagha-street-art-festival",
+    "event_id": "sbagha-bagha-2026",
+    "retired_at": "2026-10-19"
+  },
+  {
+    "slug": "fes-festival-of-world-sacred-music",
+    "event_id": "fes-sacred-music-2026",
+    "retired_at": "2026-10-19"
+  },
+  {
+    "slug": "marrakech-du-rire",
+    "event_id": "marrakech-du-rire-2026",
+    "retired_at": "2026-10-19"
+  },
+  {
+    "slug": "cherry-festival-sefrou",
+    "event_id": "cherry-festival-2026",
+    "retired_at": "2026-10-19"
+  },
+  {
+    "slug": "mawazine-rhythms-of-the-world",
+    "event_id": "mawazine-2026",
+    "retired_at": "2026-10-19"
+  },
+  {
+    "slug": "gnaoua-world-music-festival",
+    "event_id": "gnaoua-2026",
+    "retired_at": "2026-10-19"
+  },
+  {
+    "slug": "jazzablanca-festival",
+    "event_id": "jazzablanca-2026",
+    "retired_at": "2026-10-19"
+  },
+  {
+    "slug": "timitar-festival-agadir",
+    "event_id": "timitar-2026",
+    "retired_at": "2026-10-19"
+  },
+  {
+    "slug": "marrakech-popular-arts-festival",
+    "event_id": "marrakech-popular-arts-2026",
+    "retired_at": "2026-10-19"
+  },
+  {
+    "slug": "asilah-international-cultural-festival",
+    "event_id": "asilah-arts-2026",
+    "retired_at": "2026-10-19"
+  },
+  {
+    "slug": "camel-festival-guelmim",
+    "event_id": "camel-festival-2026",
+    "retired_at": "2026-10-19"
+  },
+  {
+    "slug": "honey-festival-imouzzer",
+    "event_id": "honey-festival-2026",
+    "retired_at": "2026-10-19"
+  },
+  {
+    "slug": "jidar-street-art-festival",
+    "event_id": "jidar-2026",
+    "retired_at": "2026-10-19"
+  },
+  {
+    "slug": "summer-of-oudayas-festival",
+    "event_id": "summer-oudayas-2026",
+    "retired_at": "2026-10-19"
+  },
+  {
+    "slug": "l-boulevard-urban-music-festival",
+    "event_id": "boulevard-2026",
+    "retired_at": "2026-10-19"
+  },
+  {
+    "slug": "tanjazz-festival",
+    "event_id": "tanjazz-2026",
+    "retired_at": "2026-10-19"
+  },
+  {
+    "slug": "imilchil-marriage-festival",
+    "event_id": "imilchil-2026",
+    "retired_at": "2026-10-19"
+  },
+  {
+    "slug": "jazz-au-chellah",
+    "event_id": "jazz-chellah-2026",
+    "retired_at": "2026-10-19"
+  },
+  {
+    "slug": "sarab-festival",
+    "event_id": "sarab-2026",
+    "retired_at": "2026-10-19"
+  },
+  {
+    "slug": "moga-festival-essaouira",
+    "event_id": "moga-2026",
+    "retired_at": "2026-10-19"
+  },
+  {
+    "slug": "atlantic-andalusia-festival",
+    "event_id": "atlantic-andalusia-2026",
+    "retired_at": "2026-10-19"
+  },
+  {
+    "slug": "oasis-festival-marrakech",
+    "event_id": "oasis-2026",
+    "retired_at": "2026-10-19"
+  },
+  {
+    "slug": "salon-du-cheval-el-jadida",
+    "event_id": "salon-cheval-2026",
+    "retired_at": "2026-10-19"
+  },
+  {
+    "slug": "erfoud-date-festival",
+    "event_id": "erfoud-dates-2026",
+    "retired_at": "2026-10-19"
+  },
+  {
+    "slug": "taragalte-festival",
+    "event_id": "taragalte-2026",
+    "retired_at": "2026-10-19"
+  },
+  {
+    "slug": "visa-for-music",
+    "event_id": "visa-music-2026",
+    "retired_at": "2026-10-19"
+  },
+  {
+    "slug": "marrakech-international-film-festival",
+    "event_id": "marrakech-film-2026",
+    "retired_at": "2026-10-19"
+  }
+];
@@ -0,0 +1,132 @@
+/**
+ * Morocco Dates
+ *
+ * "Today", "this weekend" and whether an event is upcoming, ongoing or past,
+ * evaluated in Africa/Casablanca rather than UTC. Event dates are local
+ * dates, so from midnight to 1am in Morocco (UTC+1) the UTC date is still
+ * yesterday; during Ramadan Morocco moves to UTC+0 and back, and the offset
+ * changes with it. Everything that asks for today's date goes through here.
+ */
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/** Where an event is relative to today. */
+export type EventPhase = "upcoming" | "ongoing" | "past";
+
+/**
+ * The `happening` filter: on now, on today, or on this weekend. Records have
+ * dates but no times, so `now` and `today` both match what is on today's
+ * date; `now` leaves room for times once records carry them.
+ */
+export type Happening = "now" | "today" | "weekend";
+
+export const HAPPENINGS: Happening[] = ["now", "today", "weekend"];
+
+export type HappeningResult = { happening: Happening | undefined } | { error: string };
+
+export const MOROCCO_TIMEZONE = "Africa/Casablanca";
+
+// ============================================================================
+// TIMEZONES
+// ============================================================================
+
+const MS_PER_DAY = 86400000;
+
+function zonedParts(instant: number, timezone: string): Record<string, number> {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone: timezone,
+    hourCycle: "h23",
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+  }).formatToParts(new Date(instant));
+  return Object.fromEntries(
+    parts.filter((p) => p.type !== "literal").map((p) => [p.type, parseInt(p.value, 10)])
+  );
+}
+
+/** Offset of a zone from UTC at an instant, in minutes. */
+export function zoneOffsetMinutes(instant: number, timezone: string): number {
+  const p = zonedParts(instant, timezone);
+  const local = Date.UTC(p.year, p.month - 1, p.day, p.hour, p.minute);
+  return Math.round((local - Math.floor(instant / 60000) * 60000) / 60000);
+}
+
+/** The date (YYYY-MM-DD) it is in a zone at an instant. */
+export function zonedDate(instant: Date, timezone: string): string {
+  const p = zonedParts(instant.getTime(), timezone);
+  return `${p.year}-${String(p.month).padStart(2, "0")}-${String(p.day).padStart(2, "0")}`;
+}
+
+/** Midnight at the start of a date in a zone, with its offset. */
+export function zonedMidnight(iso: string, timezone: string): string {
+  const utcMidnight = Date.parse(iso);
+  // Re-read the offset at the found instant, in case midnight is near a change
+  let offset = zoneOffsetMinutes(utcMidnight, timezone);
+  offset = zoneOffsetMinutes(utcMidnight - offset * 60000, timezone);
+
+  const sign = offset < 0 ? "-" : "+";
+  const hours = String(Math.floor(Math.abs(offset) / 60)).padStart(2, "0");
+  const minutes = String(Math.abs(offset) % 60).padStart(2, "0");
+  return `${iso}T00:00:00${sign}${hours}:${minutes}`;
+}
+
+// ============================================================================
+// TODAY
+// ============================================================================
+
+/** Today's date in Morocco. */
+export function todayInMorocco(now: Date = new Date()): string {
+  return zonedDate(now, MOROCCO_TIMEZONE);
+}
+
+function addDays(iso: string, days: number): string {
+  return new Date(Date.parse(iso) + days * MS_PER_DAY).toISOString().split("T")[0];
+}
+
+/**
+ * This weekend, Friday to Sunday: festivals open on Friday evenings. From
+ * Monday to Thursday it is the coming weekend; on Friday to Sunday it runs
+ * from today.
+ */
+export function weekendRange(today: string): { from: string; to: string } {
+  // 0 = Sunday ... 6 = Saturday
+  const weekday = new Date(`${today}T00:00:00Z`).getUTCDay();
+  const sunday = addDays(today, (7 - weekday) % 7);
+  const friday = addDays(sunday, -2);
+  return { from: friday > today ? friday : today, to: sunday };
+}
+
+/** The dates a `happening` value covers, from today in Morocco. */
+export function happeningRange(happening: Happening, today: string): { from: string; to: string } {
+  return happening === "weekend" ? weekendRange(today) : { from: today, to: today };
+}
+
+// ============================================================================
+// PHASE
+// ============================================================================
+
+export function eventPhase(
+  event: { start_date: string; end_date: string | null },
+  today: string
+): EventPhase {
+  if (event.start_date > today) return "upcoming";
+  return (event.end_date || event.start_date) >= today ? "ongoing" : "past";
+}
+
+// ============================================================================
+// PARSING
+// ============================================================================
+
+/** Read `happening` from the query string. */
+export function parseHappening(value: unknown): HappeningResult {
+  if (typeof value !== "string" || value === "") return { happening: undefined };
+  if (!HAPPENINGS.includes(value as Happening)) {
+    return { error: `Invalid happening "${value}". Use one of: ${HAPPENINGS.join(", ")}` };
+  }
+  return { happening: value as Happening };
+}
@@ -0,0 +1,288 @@
+/**
+ * Search Facets
+ *
+ * Filter counts for the search API and the /search page. Facets are
+ * disjunctive: several values of one facet are ORed ("Marrakech or Fès"),
+ * different facets are ANDed, and each facet's counts are computed with its
+ * own selection left out, so every value shows how many results picking it
+ * would give. Conjunctive facets (accessibility flags) AND their values and
+ * count within the full selection instead. Facets over a closed vocabulary
+ * (tradition, category, type, status, accessibility, seating, surface)
+ * reject values outside it. Cities are matched by any of their names
+ * ("fez" selects `fes`).
+ */
+
+import type { FacetValue } from "../types";
+import type { SheetEvent } from "./repository";
+import type { QueryParams } from "./search";
+import {
+  EventStatusLabels,
+  EventTypeLabels,
+  MUSIC_TRADITIONS,
+  type EventStatus,
+  type EventType,
+} from "./taxonomy";
+import { EVENT_CATEGORIES, EVENT_TYPES } from "./classification";
+import { resolvePlace } from "./gazetteer";
+import { EVENT_STATUSES } from "./lifecycle";
+import {
+  ACCESSIBILITY_FEATURES,
+  AccessibilityFeatureLabels,
+  SEATING,
+  SeatingLabels,
+  VENUE_SURFACES,
+  VenueSurfaceLabels,
+  type AccessibilityFeature,
+  type Seating,
+  type VenueSurface,
+} from "./accessibility";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface FacetDefinition<T> {
+  name: string;
+  // Values an item has for this facet; an item can have several (genres)
+  values: (item: T) => string[];
+  // Display label of a value, when it differs from the value itself
+  label?: (value: string, item: T) => string;
+  // Every selected value must match, instead of any
+  conjunctive?: boolean;
+  // Chronological facets (months) keep their value order instead of by count
+  sortByValue?: boolean;
+  // Closed vocabularies: a value outside it is an error, not an empty result
+  allowed?: readonly string[];
+  // Canonical form of a selected value (a city alias to its slug)
+  normalize?: (value: string) => string;
+}
+
+// Facet name → selected values
+export type FacetSelection = Record<string, string[]>;
+
+// ============================================================================
+// EVENT FACETS
+// ============================================================================
+
+const MONTH_LABELS = [
+  "January", "February", "March", "April", "May", "June",
+  "July", "August", "September", "October", "November", "December",
+];
+
+// Also the accessibility filters of /api/events
+export const ACCESSIBILITY_FACETS: FacetDefinition<SheetEvent>[] = [
+  {
+    name: "accessibility",
+    values: (e) => ACCESSIBILITY_FEATURES.filter((f) => e.accessibility.features[f]),
+    label: (value) => AccessibilityFeatureLabels[value as AccessibilityFeature] || value,
+    conjunctive: true,
+    allowed: ACCESSIBILITY_FEATURES,
+  },
+  {
+    name: "seating",
+    values: (e) => (e.accessibility.seating ? [e.accessibility.seating] : []),
+    label: (value) => SeatingLabels[value as Seating] || value,
+    allowed: SEATING,
+  },
+  {
+    name: "surface",
+    values: (e) => (e.accessibility.surface ? [e.accessibility.surface] : []),
+    label: (value) => VenueSurfaceLabels[value as VenueSurface] || value,
+    allowed: VENUE_SURFACES,
+  },
+];
+
+export const EVENT_FACETS: FacetDefinition<SheetEvent>[] = [
+  {
+    name: "city",
+    values: (e) => (e.city_slug ? [e.city_slug] : []),
+    label: (_, e) => e.city,
+    normalize: (value) => resolvePlace(value)?.slug || value,
+  },
+  {
+    name: "region",
+    values: (e) => (e.region_slug ? [e.region_slug] : []),
+    label: (_, e) => e.region,
+  },
+  {
+    name: "genre",
+    values: (e) => e.genres,
+  },
+  {
+    name: "tradition",
+    values: (e) => e.traditions.map((t) => t.id),
+    label: (value) => MUSIC_TRADITIONS[value]?.name || value,
+    allowed: Object.keys(MUSIC_TRADITIONS),
+  },
+  {
+    name: "category",
+    values: (e) => (e.category ? [e.category] : []),
+    allowed: EVENT_CATEGORIES,
+  },
+  {
+    name: "type",
+    values: (e) => [e.event_type],
+    label: (value) => EventTypeLabels[value as EventType] || value,
+    allowed: EVENT_TYPES,
+  },
+  {
+    name: "status",
+    values: (e) => [e.status],
+    label: (value) => EventStatusLabels[value as EventStatus] || value,
+    allowed: EVENT_STATUSES,
+  },
+  {
+    name: "month",
+    values: (e) => (e.start_date ? [e.start_date.slice(0, 7)] : []),
+    label: (value) => `${MONTH_LABELS[parseInt(value.slice(5, 7), 10) - 1]} ${value.slice(0, 4)}`,
+    sortByValue: true,
+  },
+  {
+    name: "price",
+    values: (e) => [e.price_isFree ? "free" : "paid"],
+    label: (value) => (value === "free" ? "Free" : "Paid"),
+  },
+  ...ACCESSIBILITY_FACETS,
+];
+
+// ============================================================================
+// SELECTION
+// ============================================================================
+
+/**
+ * Read the selected values of each facet from the query string. Values can be
+ * repeated (`?city=fes&city=rabat`) or comma-separated (`?city=fes,rabat`).
+ */
+export function parseFacetSelection<T>(
+  params: QueryParams,
+  definitions: FacetDefinition<T>[]
+): FacetSelection {
+  const selection: FacetSelection = {};
+
+  for (const { name, normalize } of definitions) {
+    const raw = params[name];
+    const values = (Array.isArray(raw) ? raw : raw ? [raw] : [])
+      .flatMap((v) => v.split(","))
+      .map((v) => v.trim())
+      .filter(Boolean)
+      .map((v) => (normalize ? normalize(v) : v));
+    if (values.length > 0) selection[name] = [...new Set(values)];
+  }
+
+  return selection;
+}
+
+/**
+ * Why a selection is invalid: the first value outside a facet's allowed
+ * vocabulary, or null when every value is allowed.
+ */
+export function checkFacetSelection<T>(
+  selection: FacetSelection,
+  definitions: FacetDefinition<T>[]
+): string | null {
+  for (const { name, allowed } of definitions) {
+    if (!allowed) continue;
+    const invalid = (selection[name] || []).find((v) => !allowed.includes(v.toLowerCase()));
+    if (invalid !== undefined) {
+      return `Invalid ${name} "${invalid}". Use one of: ${allowed.join(", ")}`;
+    }
+  }
+  return null;
+}
+
+// Case-insensitive, so ?genre=gnawa matches "Gnawa"
+function itemValues<T>(item: T, definition: FacetDefinition<T>): string[] {
+  return definition.values(item).map((v) => v.toLowerCase());
+}
+
+function matchesFacet<T>(item: T, definition: FacetDefinition<T>, selected: string[]): boolean {
+  const values = itemValues(item, definition);
+  const wanted = selected.map((v) => v.toLowerCase());
+  return definition.conjunctive
+    ? wanted.every((v) => values.includes(v))
+    : wanted.some((v) => values.includes(v));
+}
+
+function matchesSelection<T>(
+  item: T,
+  definitions: FacetDefinition<T>[],
+  selection: FacetSelection,
+  except?: string
+): boolean {
+  return definitions.every(
+    (definition) =>
+      definition.name === except ||
+      !selection[definition.name] ||
+      matchesFacet(item, definition, selection[definition.name])
+  );
+}
+
+/** Items matching every facet of a selection, in their original order. */
+export function applyFacetSelection<T>(
+  items: T[],
+  definitions: FacetDefinition<T>[],
+  selection: FacetSelection
+): T[] {
+  return items.filter((item) => matchesSelection(item, definitions, selection));
+}
+
+// ============================================================================
+// COUNTING
+// ============================================================================
+
+function countFacet<T>(items: T[], definition: FacetDefinition<T>): FacetValue[] {
+  const counts = new Map<string, FacetValue>();
+
+  for (const item of items) {
+    for (const value of new Set(definition.values(item))) {
+      const key = value.toLowerCase();
+      const existing = counts.get(key);
+      if (existing) {
+        existing.count++;
+      } else {
+        const label = definition.label?.(value, item);
+        counts.set(key, { value, ...(label && label !== value && { label }), count: 1 });
+      }
+    }
+  }
+
+  return [...counts.values()].sort((a, b) =>
+    definition.sortByValue
+      ? a.value.localeCompare(b.value)
+      : b.count - a.count || (a.label || a.value).localeCompare(b.label || b.value)
+  );
+}
+
+/**
+ * Counts of every facet value over `items` (the results before any facet
+ * is applied). Selected values are always listed, with a count of 0 when no
+ * item has them, so a client can still show and clear them.
+ */
+export function countFacets<T>(
+  items: T[],
+  definitions: FacetDefinition<T>[],
+  selection: FacetSelection
+): Record<string, FacetValue[]> {
+  const facets: Record<string, FacetValue[]> = {};
+
+  for (const definition of definitions) {
+    const pool = items.filter((item) =>
+      matchesSelection(
+        item,
+        definitions,
+        selection,
+        definition.conjunctive ? undefined : definition.name
+      )
+    );
+    const values = countFacet(pool, definition);
+
+    for (const selected of selection[definition.name] || []) {
+      if (!values.some((v) => v.value.toLowerCase() === selected.toLowerCase())) {
+        values.push({ value: selected, count: 0 });
+      }
+    }
+    facets[definition.name] = values;
+  }
+
+  return facets;
+}
@@ -0,0 +1,110 @@
+/**
+ * Gazetteer
+ *
+ * The Moroccan places events happen in, with their English, French, Arabic
+ * and Tifinagh names, aliases, province, region, coordinates and population
+ * (data/places.ts). The resolver maps any spelling of a place to one
+ * canonical entry: "Fès", "Fez", "fes" and "فاس" are all `fes`. Used when
+ * mapping records (city_slug), by search and by the submit form.
+ */
+
+import { places as _rawPlaces } from "./data/places";
+import { tokenize } from "./text-analysis";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type PlaceKind = "city" | "town" | "village";
+
+export interface PlaceRow {
+  slug: string;
+  kind: PlaceKind;
+  name_en: string;
+  name_fr: string;
+  name_ar: string;
+  // Tifinagh
+  name_tzm: string;
+  aliases: string[];
+  province: string;
+  // Slug from REGIONS
+  region: string;
+  lat: number;
+  lng: number;
+  population: number | null;
+}
+
+export type Place = PlaceRow;
+
+export type PlaceLang = "en" | "fr" | "ar" | "tzm";
+
+// ============================================================================
+// INDEX
+// ============================================================================
+
+/**
+ * Lookup key of a name: folded (accents, case, Arabic variants) with spaces,
+ * hyphens and apostrophes dropped, so "Kelaat M'Gouna", "kelaat-mgouna" and
+ * "Kelâat Mgouna" share a key.
+ */
+export function placeKey(name: string): string {
+  return tokenize(name).join("");
+}
+
+/** Every name a place goes by, canonical names first. */
+export function placeNames(place: Place): string[] {
+  return [place.name_en, place.name_fr, place.name_ar, place.name_tzm, ...place.aliases];
+}
+
+const PLACES: Place[] = _rawPlaces;
+
+const BY_SLUG = new Map(PLACES.map((p) => [p.slug, p]));
+
+const BY_KEY = new Map<string, Place>();
+for (const place of PLACES) {
+  for (const name of [place.slug, ...placeNames(place)]) {
+    const key = placeKey(name);
+    // First place wins; a shared alias must not re-point a canonical name
+    if (key && !BY_KEY.has(key)) BY_KEY.set(key, place);
+  }
+}
+
+// ============================================================================
+// RESOLVER
+// ============================================================================
+
+export function getPlaces(): Place[] {
+  return PLACES;
+}
+
+export function getPlace(slug: string): Place | undefined {
+  return BY_SLUG.get(slug);
+}
+
+/**
+ * The place a name refers to, by any of its names, aliases or its slug.
+ * Returns null for names not in the gazetteer; there is no fuzzy matching,
+ * so a typo is reported rather than mapped to the wrong town.
+ */
+export function resolvePlace(name: string | null | undefined): Place | null {
+  if (!name) return null;
+  return BY_KEY.get(placeKey(name)) || null;
+}
+
+/**
+ * Places with a name starting with `prefix`, largest first, for
+ * autocompletion.
+ */
+export function suggestPlaces(prefix: string, limit = 10): Place[] {
+  const key = placeKey(prefix);
+  if (!key) return [];
+  return PLACES.filter((place) =>
+    placeNames(place).some((name) => placeKey(name).startsWith(key))
+  )
+    .sort((a, b) => (b.population || 0) - (a.population || 0))
+    .slice(0, limit);
+}
+
+export function placeName(place: Place, lang: PlaceLang): string {
+  return place[`name_${lang}`] || place.name_en;
+}
@@ -0,0 +1,181 @@
+/**
+ * Geo Search
+ *
+ * "What's on near here" for /api/events and /api/search: events within a
+ * radius of a point or inside a bounding box, with their distance from the
+ * point. Distances are great-circle (haversine) and computed in-process;
+ * events without coordinates of their own are placed at their city centre.
+ */
+
+import { CITY_COORDINATES } from "./geo";
+import { resolvePlace } from "./gazetteer";
+import type { SheetEvent } from "./repository";
+import type { QueryParams } from "./search";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface GeoPoint {
+  lat: number;
+  lng: number;
+}
+
+export interface BoundingBox {
+  west: number;
+  south: number;
+  east: number;
+  north: number;
+}
+
+export interface GeoQuery {
+  // Distances are measured from here
+  near: GeoPoint | null;
+  radius_km: number | null;
+  bbox: BoundingBox | null;
+}
+
+export type GeoQueryResult = { query: GeoQuery } | { error: string };
+
+/** An event with its distance from the `near` point, in km. */
+export type GeoEvent = SheetEvent & { distance_km?: number };
+
+const EARTH_RADIUS_KM = 6371;
+
+// Keeps a radius query from silently covering the whole country
+export const MAX_RADIUS_KM = 2000;
+
+// ============================================================================
+// DISTANCE
+// ============================================================================
+
+function toRadians(degrees: number): number {
+  return (degrees * Math.PI) / 180;
+}
+
+/** Great-circle distance between two points, in km. */
+export function haversineKm(a: GeoPoint, b: GeoPoint): number {
+  const dLat = toRadians(b.lat - a.lat);
+  const dLng = toRadians(b.lng - a.lng);
+  const h =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(a.lat)) * Math.cos(toRadians(b.lat)) * Math.sin(dLng / 2) ** 2;
+  return 2 * EARTH_RADIUS_KM * Math.asin(Math.min(1, Math.sqrt(h)));
+}
+
+/** Where an event is: its own coordinates, else its city centre. */
+export function eventLocation(event: SheetEvent): GeoPoint | null {
+  if (event.lat && event.lng) return { lat: event.lat, lng: event.lng };
+  const city = CITY_COORDINATES[event.city_slug];
+  return city ? { lat: city[0], lng: city[1] } : null;
+}
+
+function inBoundingBox(point: GeoPoint, bbox: BoundingBox): boolean {
+  return (
+    point.lat >= bbox.south &&
+    point.lat <= bbox.north &&
+    point.lng >= bbox.west &&
+    point.lng <= bbox.east
+  );
+}
+
+// ============================================================================
+// PARSING
+// ============================================================================
+
+function numbers(value: string): number[] | null {
+  const parts = value.split(",").map((p) => Number(p.trim()));
+  return parts.every(Number.isFinite) ? parts : null;
+}
+
+function validPoint(lat: number, lng: number): boolean {
+  return lat >= -90 && lat <= 90 && lng >= -180 && lng <= 180;
+}
+
+/**
+ * Read `near`, `radius_km` and `bbox` from the query string.
+ *
+ * - `near=34.03,-5.00` (lat,lng) or a place in the gazetteer (`near=fez`)
+ * - `radius_km=100` only keeps events that close to `near`
+ * - `bbox=west,south,east,north` in degrees, as in GeoJSON
+ *
+ * `radius_km` and `sort=distance` need `near`.
+ */
+export function parseGeoQuery(params: QueryParams): GeoQueryResult {
+  const query: GeoQuery = { near: null, radius_km: null, bbox: null };
+
+  if (typeof params.near === "string" && params.near) {
+    const place = resolvePlace(params.near);
+    const coords = place ? [place.lat, place.lng] : numbers(params.near);
+    if (!coords || coords.length !== 2 || !validPoint(coords[0], coords[1])) {
+      return { error: `Invalid near "${params.near}". Use lat,lng or a place name` };
+    }
+    query.near = { lat: coords[0], lng: coords[1] };
+  }
+
+  if (typeof params.radius_km === "string" && params.radius_km) {
+    const radius = Number(params.radius_km);
+    if (!Number.isFinite(radius) || radius <= 0 || radius > MAX_RADIUS_KM) {
+      return { error: `Invalid radius_km "${params.radius_km}". Use km, up to ${MAX_RADIUS_KM}` };
+    }
+    if (!query.near) {
+      return { error: "radius_km needs near" };
+    }
+    query.radius_km = radius;
+  }
+
+  if (typeof params.bbox === "string" && params.bbox) {
+    const box = numbers(params.bbox);
+    if (
+      !box ||
+      box.length !== 4 ||
+      !validPoint(box[1], box[0]) ||
+      !validPoint(box[3], box[2]) ||
+      box[0] > box[2] ||
+      box[1] > box[3]
+    ) {
+      return { error: `Invalid bbox "${params.bbox}". Use west,south,east,north` };
+    }
+    query.bbox = { west: box[0], south: box[1], east: box[2], north: box[3] };
+  }
+
+  if (params.sort === "distance" && !query.near) {
+    return { error: "sort=distance needs near" };
+  }
+
+  return { query };
+}
+
+// ============================================================================
+// FILTERING
+// ============================================================================
+
+/**
+ * Apply a geo query: events outside the radius or box (or with no location
+ * when either is set) are dropped, and with `near` each event gets its
+ * `distance_km`. Order is kept.
+ */
+export function applyGeoQuery(events: SheetEvent[], query: GeoQuery): GeoEvent[] {
+  if (!query.near && !query.bbox) return events;
+
+  const results: GeoEvent[] = [];
+  for (const event of events) {
+    const location = eventLocation(event);
+    if (!location) {
+      // Without a radius or box there is nothing to exclude it from
+      if (!query.radius_km && !query.bbox) results.push(event);
+      continue;
+    }
+    if (query.bbox && !inBoundingBox(location, query.bbox)) continue;
+
+    if (!query.near) {
+      results.push(event);
+      continue;
+    }
+    const distance = haversineKm(query.near, location);
+    if (query.radius_km !== null && distance > query.radius_km) continue;
+    results.push({ ...event, distance_km: Math.round(distance * 10) / 10 });
+  }
+
+  return results;
+}
@@ -0,0 +1,266 @@
+/**
+ * GeoJSON Export
+ *
+ * Events as an RFC 7946 FeatureCollection for /api/geo/events.geojson, so the
+ * map and GIS tools read one live source. Three layers:
+ *
+ * - events: one Point per event
+ * - clusters: events grouped for a zoom level, as Mapbox or Leaflet would
+ *   cluster them client-side, but computed on the server
+ * - regions: the region polygons of geo.ts with event counts
+ *
+ * Features have stable top-level ids, so the output can also be fed to a
+ * vector tile builder (tippecanoe) as is.
+ */
+
+import { MOROCCO_REGIONS_GEOJSON } from "./geo";
+import { CoordinatePrecision } from "./taxonomy";
+import { eventLocation, type GeoEvent, type GeoPoint } from "./geo-search";
+import { SITE_URL } from "./ical";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type Position = [number, number];
+
+export interface PointGeometry {
+  type: "Point";
+  coordinates: Position;
+}
+
+export interface PolygonGeometry {
+  type: "Polygon";
+  coordinates: Position[][];
+}
+
+export interface Feature<G = PointGeometry, P = Record<string, unknown>> {
+  type: "Feature";
+  id: string;
+  geometry: G;
+  properties: P;
+}
+
+export interface FeatureCollection<F = Feature> {
+  type: "FeatureCollection";
+  features: F[];
+}
+
+export interface EventProperties {
+  id: string;
+  slug: string;
+  name: string;
+  category: string;
+  event_type: string;
+  start_date: string;
+  end_date: string | null;
+  city: string;
+  city_slug: string;
+  region: string;
+  region_slug: string;
+  venue: string | null;
+  genres: string[];
+  status: string;
+  is_pinned: boolean;
+  cultural_significance: number;
+  url: string;
+  // "city" when the point is only the city centre
+  coordinate_precision: CoordinatePrecision;
+  // Only with a `near` query
+  distance_km?: number;
+}
+
+export interface ClusterProperties {
+  cluster: true;
+  point_count: number;
+  // Lowest zoom at which the cluster breaks up
+  expansion_zoom: number;
+  event_ids: string[];
+}
+
+export interface RegionProperties {
+  slug: string;
+  name: string;
+  event_count: number;
+  city_count: number;
+  event_ids: string[];
+}
+
+export type EventFeature = Feature<PointGeometry, EventProperties>;
+export type ClusterFeature = Feature<PointGeometry, ClusterProperties>;
+export type RegionFeature = Feature<PolygonGeometry, RegionProperties>;
+
+// Mapbox GL's default cluster radius, on its 512px tiles
+export const CLUSTER_RADIUS_PX = 50;
+const TILE_SIZE = 512;
+
+// Street level; beyond it events are returned unclustered
+export const MAX_CLUSTER_ZOOM = 14;
+
+// ============================================================================
+// EVENTS LAYER
+// ============================================================================
+
+/** A Point feature for an event, or null when it has no location. */
+export function eventFeature(event: GeoEvent): EventFeature | null {
+  const location = eventLocation(event);
+  if (!location) return null;
+
+  const properties: EventProperties = {
+    id: event.id,
+    slug: event.slug,
+    name: event.name,
+    category: event.category,
+    event_type: event.event_type,
+    start_date: event.start_date,
+    end_date: event.end_date,
+    city: event.city,
+    city_slug: event.city_slug,
+    region: event.region,
+    region_slug: event.region_slug,
+    venue: event.venue,
+    genres: event.genres,
+    status: event.status,
+    is_pinned: event.is_pinned,
+    cultural_significance: event.cultural_significance,
+    url: `${SITE_URL}/events/${event.slug}`,
+    // Events placed at their city centre by eventLocation are city-level too
+    coordinate_precision: event.coordinates?.precision ?? CoordinatePrecision.CITY,
+  };
+  if (event.distance_km !== undefined) properties.distance_km = event.distance_km;
+
+  return {
+    type: "Feature",
+    id: event.id,
+    // GeoJSON positions are [longitude, latitude]
+    geometry: { type: "Point", coordinates: [location.lng, location.lat] },
+    properties,
+  };
+}
+
+export function eventsToGeoJSON(events: GeoEvent[]): FeatureCollection<EventFeature> {
+  return {
+    type: "FeatureCollection",
+    features: events.map(eventFeature).filter((f): f is EventFeature => f !== null),
+  };
+}
+
+// ============================================================================
+// CLUSTERS LAYER
+// ============================================================================
+
+/** Web Mercator pixel position at a zoom level. */
+function project(point: GeoPoint, zoom: number): [number, number] {
+  const scale = TILE_SIZE * 2 ** zoom;
+  const sin = Math.sin((point.lat * Math.PI) / 180);
+  return [
+    ((point.lng + 180) / 360) * scale,
+    (0.5 - Math.log((1 + sin) / (1 - sin)) / (4 * Math.PI)) * scale,
+  ];
+}
+
+function position(feature: EventFeature): GeoPoint {
+  const [lng, lat] = feature.geometry.coordinates;
+  return { lat, lng };
+}
+
+/**
+ * Greedy clustering: taking the most significant events first, each event
+ * not yet clustered gathers every other one within CLUSTER_RADIUS_PX of it
+ * at `zoom`.
+ */
+function groupFeatures(features: EventFeature[], zoom: number): EventFeature[][] {
+  const ordered = [...features].sort(
+    (a, b) => b.properties.cultural_significance - a.properties.cultural_significance
+  );
+  const pixels = new Map(ordered.map((f) => [f, project(position(f), zoom)]));
+  const assigned = new Set<EventFeature>();
+  const groups: EventFeature[][] = [];
+
+  for (const seed of ordered) {
+    if (assigned.has(seed)) continue;
+    const [sx, sy] = pixels.get(seed)!;
+    const group = ordered.filter((f) => {
+      if (assigned.has(f)) return false;
+      const [x, y] = pixels.get(f)!;
+      return Math.hypot(x - sx, y - sy) <= CLUSTER_RADIUS_PX;
+    });
+    group.forEach((f) => assigned.add(f));
+    groups.push(group);
+  }
+
+  return groups;
+}
+
+function expansionZoom(group: EventFeature[], zoom: number): number {
+  for (let z = zoom + 1; z <= MAX_CLUSTER_ZOOM; z++) {
+    if (groupFeatures(group, z).length > 1) return z;
+  }
+  // Same place (one venue or city centre): never splits
+  return MAX_CLUSTER_ZOOM + 1;
+}
+
+/**
+ * Events clustered for a zoom level (0 to MAX_CLUSTER_ZOOM). A group of one
+ * stays an event feature; larger groups become a cluster Point at their mean
+ * position. Cluster ids come from the zoom and their first event id, so
+ * they are stable for the same data.
+ */
+export function clusterEvents(
+  events: GeoEvent[],
+  zoom: number
+): FeatureCollection<EventFeature | ClusterFeature> {
+  const { features } = eventsToGeoJSON(events);
+  if (zoom > MAX_CLUSTER_ZOOM) return { type: "FeatureCollection", features };
+
+  const clustered = groupFeatures(features, zoom).map(
+    (group): EventFeature | ClusterFeature => {
+      if (group.length === 1) return group[0];
+
+      const points = group.map(position);
+      const lng = points.reduce((sum, p) => sum + p.lng, 0) / points.length;
+      const lat = points.reduce((sum, p) => sum + p.lat, 0) / points.length;
+      const eventIds = group.map((f) => f.properties.id);
+
+      return {
+        type: "Feature",
+        id: `cluster-${zoom}-${[...eventIds].sort()[0]}`,
+        geometry: { type: "Point", coordinates: [lng, lat] },
+        properties: {
+          cluster: true,
+          point_count: group.length,
+          expansion_zoom: expansionZoom(group, zoom),
+          event_ids: eventIds,
+        },
+      };
+    }
+  );
+
+  return { type: "FeatureCollection", features: clustered };
+}
+
+// ============================================================================
+// REGIONS LAYER
+// ============================================================================
+
+/** The region polygons with how many of the events are in each. */
+export function regionsToGeoJSON(events: GeoEvent[]): FeatureCollection<RegionFeature> {
+  return {
+    type: "FeatureCollection",
+    features: MOROCCO_REGIONS_GEOJSON.features.map((region) => {
+      const inRegion = events.filter((e) => e.region_slug === region.properties.slug);
+      return {
+        type: "Feature",
+        id: region.properties.slug,
+        geometry: region.geometry as PolygonGeometry,
+        properties: {
+          slug: region.properties.slug,
+          name: region.properties.name,
+          event_count: inRegion.length,
+          city_count: new Set(inRegion.map((e) => e.city_slug).filter(Boolean)).size,
+          event_ids: inRegion.map((e) => e.id),
+        },
+      };
+    }),
+  };
+}
@@ -0,0 +1,125 @@
+/**
+ * Location Checks
+ *
+ * Reconciles a record's coordinates with the region it declares. The region
+ * is derived from lat/lng by point-in-polygon against MOROCCO_REGIONS_GEOJSON,
+ * and coordinates that are exactly a city centre from CITY_COORDINATES are
+ * marked as city-level precision: they say which city, not which venue.
+ *
+ * The region polygons are simplified, so a point near a border or on the
+ * coast can fall in two regions or in none. Only a point that lies in other
+ * regions and not in the declared one counts as a mismatch. The data lint
+ * warns about mismatches, and each event's coordinates carry the derived
+ * region and the flag for API consumers.
+ */
+
+import { CoordinatePrecision, type EventCoordinates } from "./taxonomy";
+import { CITY_COORDINATES, MOROCCO_REGIONS_GEOJSON } from "./geo";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface LocationCheck {
+  declared_region: string;
+  // Regions whose polygon contains the point (usually one)
+  derived_regions: string[];
+  region_mismatch: boolean;
+  precision: CoordinatePrecision;
+  // City whose centre the coordinates are, for city-level precision
+  city_centroid: string | null;
+}
+
+type Ring = number[][];
+
+// ============================================================================
+// POINT IN POLYGON
+// ============================================================================
+
+/** Ray casting; ring positions are [lng, lat] as in GeoJSON. */
+export function pointInRing(lat: number, lng: number, ring: Ring): boolean {
+  let inside = false;
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+    const [xi, yi] = ring[i];
+    const [xj, yj] = ring[j];
+    if (yi > lat !== yj > lat && lng < ((xj - xi) * (lat - yi)) / (yj - yi) + xi) {
+      inside = !inside;
+    }
+  }
+  return inside;
+}
+
+/** A polygon's outer ring contains the point and none of its holes do. */
+export function pointInPolygon(lat: number, lng: number, polygon: Ring[]): boolean {
+  const [outer, ...holes] = polygon;
+  return pointInRing(lat, lng, outer) && !holes.some((hole) => pointInRing(lat, lng, hole));
+}
+
+/** Slugs of the regions whose polygon contains a point. */
+export function regionsAt(lat: number, lng: number): string[] {
+  return MOROCCO_REGIONS_GEOJSON.features
+    .filter((region) => pointInPolygon(lat, lng, region.geometry.coordinates))
+    .map((region) => region.properties.slug);
+}
+
+// ============================================================================
+// PRECISION
+// ============================================================================
+
+/** The city whose CITY_COORDINATES centre is exactly this point, if any. */
+export function cityCentroidAt(lat: number, lng: number): string | null {
+  for (const [slug, [cityLat, cityLng]] of Object.entries(CITY_COORDINATES)) {
+    if (cityLat === lat && cityLng === lng) return slug;
+  }
+  return null;
+}
+
+function hasCoordinates(lat: number, lng: number): boolean {
+  // The mapper turns missing coordinates into 0,0
+  return Number.isFinite(lat) && Number.isFinite(lng) && !(lat === 0 && lng === 0);
+}
+
+export function coordinatePrecision(lat: number, lng: number): CoordinatePrecision {
+  if (!hasCoordinates(lat, lng)) return CoordinatePrecision.UNKNOWN;
+  return cityCentroidAt(lat, lng) ? CoordinatePrecision.CITY : CoordinatePrecision.EXACT;
+}
+
+// ============================================================================
+// CHECK
+// ============================================================================
+
+export function checkLocation(lat: number, lng: number, declaredRegion: string): LocationCheck {
+  const derived = hasCoordinates(lat, lng) ? regionsAt(lat, lng) : [];
+  return {
+    declared_region: declaredRegion,
+    derived_regions: derived,
+    region_mismatch: derived.length > 0 && !derived.includes(declaredRegion),
+    precision: coordinatePrecision(lat, lng),
+    city_centroid: hasCoordinates(lat, lng) ? cityCentroidAt(lat, lng) : null,
+  };
+}
+
+/**
+ * EventLocation.coordinates for a record, or null when it has none. The
+ * derived region is the declared one when the point lies in it, so a point
+ * on a border between it and a neighbour is not reported as elsewhere.
+ */
+export function eventCoordinates(
+  lat: number,
+  lng: number,
+  declaredRegion: string
+): EventCoordinates | null {
+  if (!hasCoordinates(lat, lng)) return null;
+  const check = checkLocation(lat, lng, declaredRegion);
+  return {
+    latitude: lat,
+    longitude: lng,
+    precision: check.precision,
+    derived_region: check.region_mismatch
+      ? check.derived_regions[0]
+      : check.derived_regions.length > 0
+        ? declaredRegion
+        : null,
+    region_mismatch: check.region_mismatch,
+  };
+}
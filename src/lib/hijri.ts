@@ -0,0 +1,242 @@
+/**
+ * Hijri Calendar
+ *
+ * Tabular (arithmetical) Islamic calendar with a configurable day offset,
+ * used to project lunar events (TemporalType.LUNAR) onto Gregorian dates.
+ *
+ * Morocco fixes Islamic months by local moon sighting, which usually lands on
+ * the tabular date or one day after. Projections are therefore always
+ * DatePrecision.APPROXIMATE and carry an uncertainty of ± a few days.
+ */
+
+import { DatePrecision, TemporalType, type EventTiming } from "./taxonomy";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface HijriDate {
+  year: number;
+  month: number; // 1 = Muharram … 12 = Dhu al-Hijjah
+  day: number;
+}
+
+export interface HijriOptions {
+  // Days added to the tabular result (e.g. 1 to follow Moroccan sighting)
+  offsetDays?: number;
+  // Reported ± window around the projected dates
+  uncertaintyDays?: number;
+}
+
+export const DEFAULT_HIJRI_OPTIONS: Required<HijriOptions> = {
+  offsetDays: 0,
+  uncertaintyDays: 1,
+};
+
+export const HIJRI_MONTHS = [
+  "Muharram",
+  "Safar",
+  "Rabi al-Awwal",
+  "Rabi al-Thani",
+  "Jumada al-Ula",
+  "Jumada al-Akhirah",
+  "Rajab",
+  "Shaban",
+  "Ramadan",
+  "Shawwal",
+  "Dhu al-Qadah",
+  "Dhu al-Hijjah",
+];
+
+// ============================================================================
+// JULIAN DAY NUMBERS
+// ============================================================================
+
+// JDN of 1 Muharram 1 AH (16 July 622, Julian), civil epoch
+const HIJRI_EPOCH = 1948440;
+// JDN of 1970-01-01
+const UNIX_EPOCH_JDN = 2440588;
+const MS_PER_DAY = 86400000;
+
+function isoToJdn(iso: string): number {
+  const [y, m, d] = iso.split("-").map(Number);
+  return Math.floor(Date.UTC(y, m - 1, d) / MS_PER_DAY) + UNIX_EPOCH_JDN;
+}
+
+function jdnToIso(jdn: number): string {
+  return new Date((jdn - UNIX_EPOCH_JDN) * MS_PER_DAY).toISOString().split("T")[0];
+}
+
+function hijriToJdn({ year, month, day }: HijriDate): number {
+  return (
+    day +
+    Math.ceil(29.5 * (month - 1)) +
+    (year - 1) * 354 +
+    Math.floor((3 + 11 * year) / 30) +
+    HIJRI_EPOCH -
+    1
+  );
+}
+
+function jdnToHijri(jdn: number): HijriDate {
+  const year = Math.floor((30 * (jdn - HIJRI_EPOCH) + 10646) / 10631);
+  const month = Math.min(
+    12,
+    Math.ceil((jdn - (29 + hijriToJdn({ year, month: 1, day: 1 }))) / 29.5) + 1
+  );
+  const day = jdn - hijriToJdn({ year, month, day: 1 }) + 1;
+  return { year, month, day };
+}
+
+// ============================================================================
+// CONVERSION
+// ============================================================================
+
+export function isHijriLeapYear(year: number): boolean {
+  return (14 + 11 * year) % 30 < 11;
+}
+
+export function hijriMonthLength(year: number, month: number): number {
+  if (month === 12) return isHijriLeapYear(year) ? 30 : 29;
+  return month % 2 === 1 ? 30 : 29;
+}
+
+/** Gregorian ISO date (YYYY-MM-DD) for a Hijri date. */
+export function hijriToGregorian(date: HijriDate, options: HijriOptions = {}): string {
+  const { offsetDays } = { ...DEFAULT_HIJRI_OPTIONS, ...options };
+  return jdnToIso(hijriToJdn(date) + offsetDays);
+}
+
+/** Hijri date for a Gregorian ISO date (YYYY-MM-DD). */
+export function gregorianToHijri(iso: string, options: HijriOptions = {}): HijriDate {
+  const { offsetDays } = { ...DEFAULT_HIJRI_OPTIONS, ...options };
+  return jdnToHijri(isoToJdn(iso) - offsetDays);
+}
+
+export function addDays(iso: string, days: number): string {
+  return jdnToIso(isoToJdn(iso) + days);
+}
+
+// ============================================================================
+// LUNAR EVENT PROJECTION
+// ============================================================================
+
+export interface LunarOccurrence {
+  hijri_year: number;
+  gregorian_start: string;
+  gregorian_end: string;
+}
+
+// Islamic month/day of a lunar timing. Falls back to the day of a stored
+// Gregorian start when it lies in the same month, then to the 1st.
+function lunarAnchor(timing: EventTiming, options: HijriOptions): { month: number; day: number } | null {
+  if (!timing.islamic_month) return null;
+  if (timing.islamic_day) return { month: timing.islamic_month, day: timing.islamic_day };
+
+  if (timing.gregorian_start) {
+    const stored = gregorianToHijri(timing.gregorian_start, options);
+    if (stored.month === timing.islamic_month) {
+      return { month: stored.month, day: stored.day };
+    }
+  }
+  return { month: timing.islamic_month, day: 1 };
+}
+
+function lunarDuration(timing: EventTiming): number {
+  if (timing.duration_days) return timing.duration_days;
+  if (timing.gregorian_start && timing.gregorian_end) {
+    return isoToJdn(timing.gregorian_end) - isoToJdn(timing.gregorian_start) + 1;
+  }
+  return 1;
+}
+
+/**
+ * Every occurrence of a lunar timing that starts in the given Gregorian year.
+ * A Hijri year is ~11 days shorter, so a date can fall twice in one year.
+ */
+export function lunarOccurrencesInYear(
+  timing: EventTiming,
+  gregorianYear: number,
+  options: HijriOptions = {}
+): LunarOccurrence[] {
+  const anchor = lunarAnchor(timing, options);
+  if (!anchor) return [];
+
+  const duration = lunarDuration(timing);
+  const first = gregorianToHijri(`${gregorianYear}-01-01`, options).year;
+  const occurrences: LunarOccurrence[] = [];
+
+  for (const hijriYear of [first, first + 1]) {
+    const day = Math.min(anchor.day, hijriMonthLength(hijriYear, anchor.month));
+    const start = hijriToGregorian({ year: hijriYear, month: anchor.month, day }, options);
+    if (start.startsWith(`${gregorianYear}-`)) {
+      occurrences.push({
+        hijri_year: hijriYear,
+        gregorian_start: start,
+        gregorian_end: addDays(start, duration - 1),
+      });
+    }
+  }
+
+  return occurrences;
+}
+
+/** The first occurrence of a lunar timing that has not ended by `fromDate`. */
+export function nextLunarOccurrence(
+  timing: EventTiming,
+  fromDate: string,
+  options: HijriOptions = {}
+): LunarOccurrence | null {
+  const year = parseInt(fromDate.slice(0, 4), 10);
+  for (const y of [year, year + 1]) {
+    const next = lunarOccurrencesInYear(timing, y, options).find((o) => o.gregorian_end >= fromDate);
+    if (next) return next;
+  }
+  return null;
+}
+
+/** A timing moved to the given occurrence, marked approximate. */
+export function applyLunarOccurrence(
+  timing: EventTiming,
+  occurrence: LunarOccurrence | null,
+  options: HijriOptions = {}
+): EventTiming {
+  if (!occurrence) return timing;
+  const { uncertaintyDays } = { ...DEFAULT_HIJRI_OPTIONS, ...options };
+  return {
+    ...timing,
+    gregorian_start: occurrence.gregorian_start,
+    gregorian_end: occurrence.gregorian_end,
+    date_precision: DatePrecision.APPROXIMATE,
+    date_uncertainty_days: uncertaintyDays,
+  };
+}
+
+/**
+ * Project a lunar timing onto a Gregorian year (its first occurrence there).
+ * Non-lunar timings are returned unchanged.
+ */
+export function resolveLunarTiming(
+  timing: EventTiming,
+  gregorianYear: number,
+  options: HijriOptions = {}
+): EventTiming {
+  if (timing.temporal_type !== TemporalType.LUNAR) return timing;
+  const [first] = lunarOccurrencesInYear(timing, gregorianYear, options);
+  return applyLunarOccurrence(timing, first || null, options);
+}
+
+/**
+ * Project a lunar timing onto its next occurrence from `fromDate`, unless the
+ * stored dates are still current. Non-lunar timings are returned unchanged.
+ */
+export function resolveUpcomingLunarTiming(
+  timing: EventTiming,
+  fromDate: string,
+  options: HijriOptions = {}
+): EventTiming {
+  if (timing.temporal_type !== TemporalType.LUNAR) return timing;
+  const storedEnd = timing.gregorian_end || timing.gregorian_start;
+  if (storedEnd && storedEnd >= fromDate) return timing;
+  return applyLunarOccurrence(timing, nextLunarOccurrence(timing, fromDate, options), options);
+}
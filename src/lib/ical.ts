@@ -0,0 +1,176 @@
+/**
+ * iCalendar Feeds
+ *
+ * Serializes repository events as RFC 5545 calendars for /api/ics, so a
+ * single event, a city, a genre or any search can be added to or subscribed
+ * from Google Calendar, Outlook or Apple Calendar.
+ *
+ * Events are all-day: DTSTART and DTEND are dates, and DTEND is exclusive
+ * (the day after the last day). UIDs are derived from the event id, so a
+ * subscribed calendar updates an event in place when its dates change.
+ */
+
+import { DatePrecision, EventStatus } from "./taxonomy";
+import type { SheetEvent } from "./repository";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface CalendarOptions {
+  // X-WR-CALNAME shown by calendar apps
+  name: string;
+  description?: string;
+  // DTSTAMP of every event; defaults to now
+  timestamp?: Date;
+}
+
+export const SITE_URL = "https://festivalsinmorocco.com";
+const UID_DOMAIN = "festivalsinmorocco.com";
+const PRODID = "-//Festivals in Morocco//Events//EN";
+
+// How often subscribed clients should poll for updates
+const REFRESH_INTERVAL = "PT12H";
+
+// ============================================================================
+// FORMATTING
+// ============================================================================
+
+/** Escape a TEXT value (RFC 5545 §3.3.11). */
+export function escapeText(value: string): string {
+  return value
+    .replace(/\\/g, "\\\\")
+    .replace(/;/g, "\\;")
+    .replace(/,/g, "\\,")
+    .replace(/\r?\n/g, "\\n");
+}
+
+/**
+ * Fold a content line at 75 octets (RFC 5545 §3.1), never splitting a
+ * multi-byte character.
+ */
+export function foldLine(line: string): string {
+  const encoder = new TextEncoder();
+  const parts: string[] = [];
+  let current = "";
+  let octets = 0;
+
+  for (const char of line) {
+    const size = encoder.encode(char).length;
+    // Continuation lines start with a space, which counts toward the limit
+    const limit = parts.length === 0 ? 75 : 74;
+    if (octets + size > limit) {
+      parts.push(current);
+      current = "";
+      octets = 0;
+    }
+    current += char;
+    octets += size;
+  }
+  parts.push(current);
+
+  return parts.join("\r\n ");
+}
+
+function formatDate(iso: string): string {
+  return iso.replace(/-/g, "");
+}
+
+function formatTimestamp(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, "").replace(/\.\d{3}/, "");
+}
+
+function nextDay(iso: string): string {
+  const date = new Date(`${iso}T00:00:00Z`);
+  date.setUTCDate(date.getUTCDate() + 1);
+  return date.toISOString().split("T")[0];
+}
+
+function eventStatus(event: SheetEvent): string {
+  if (event.status === EventStatus.CANCELLED) return "CANCELLED";
+  if (event.status === EventStatus.TENTATIVE || event.status === EventStatus.POSTPONED) return "TENTATIVE";
+  if (event.timing.date_precision !== DatePrecision.EXACT) return "TENTATIVE";
+  return "CONFIRMED";
+}
+
+export function eventUrl(event: SheetEvent): string {
+  return `${SITE_URL}/events/${event.slug}`;
+}
+
+export function eventUid(event: SheetEvent): string {
+  return `${event.id}@${UID_DOMAIN}`;
+}
+
+// ============================================================================
+// SERIALIZATION
+// ============================================================================
+
+function eventLines(event: SheetEvent, dtstamp: string): string[] {
+  const url = eventUrl(event);
+  const lastDay =
+    event.end_date && event.end_date > event.start_date ? event.end_date : event.start_date;
+  const location = [event.venue, event.city, "Morocco"].filter(Boolean).join(", ");
+  const description = [event.description, url].filter(Boolean).join("\n\n");
+
+  const lines = [
+    "BEGIN:VEVENT",
+    `UID:${eventUid(event)}`,
+    `DTSTAMP:${dtstamp}`,
+    `DTSTART;VALUE=DATE:${formatDate(event.start_date)}`,
+    `DTEND;VALUE=DATE:${formatDate(nextDay(lastDay))}`,
+    `SUMMARY:${escapeText(event.name)}`,
+    `DESCRIPTION:${escapeText(description)}`,
+    `LOCATION:${escapeText(location)}`,
+  ];
+
+  if (event.lat && event.lng) {
+    lines.push(`GEO:${event.lat};${event.lng}`);
+  }
+
+  lines.push(`URL:${url}`, `STATUS:${eventStatus(event)}`, "TRANSP:TRANSPARENT");
+
+  const categories = [event.category, ...event.genres].filter(Boolean);
+  if (categories.length > 0) {
+    lines.push(`CATEGORIES:${categories.map(escapeText).join(",")}`);
+  }
+  // ORGANIZER needs an address; the name is a quoted parameter value
+  if (event.organizer && event.email) {
+    const name = event.organizer.replace(/["\r\n]/g, "");
+    lines.push(`ORGANIZER;CN="${name}":mailto:${event.email}`);
+  }
+
+  lines.push("END:VEVENT");
+  return lines;
+}
+
+/**
+ * Serialize events as a VCALENDAR. Events without a start date (undated
+ * seasonal records) are left out.
+ */
+export function buildCalendar(events: SheetEvent[], options: CalendarOptions): string {
+  const dtstamp = formatTimestamp(options.timestamp || new Date());
+
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    `PRODID:${PRODID}`,
+    "CALSCALE:GREGORIAN",
+    "METHOD:PUBLISH",
+    `X-WR-CALNAME:${escapeText(options.name)}`,
+  ];
+  if (options.description) {
+    lines.push(`X-WR-CALDESC:${escapeText(options.description)}`);
+  }
+  lines.push(
+    `REFRESH-INTERVAL;VALUE=DURATION:${REFRESH_INTERVAL}`,
+    `X-PUBLISHED-TTL:${REFRESH_INTERVAL}`
+  );
+
+  for (const event of events) {
+    if (!event.start_date) continue;
+    lines.push(...eventLines(event, dtstamp));
+  }
+
+  lines.push("END:VCALENDAR");
+  return lines.map(foldLine).join("\r\n") + "\r\n";
+}
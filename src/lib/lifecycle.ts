@@ -0,0 +1,173 @@
+/**
+ * Event Lifecycle
+ *
+ * The status of an event record and how it may change, over the one
+ * vocabulary of taxonomy.ts EventStatus:
+ *
+ *   tentative → announced → confirmed → postponed / cancelled → archived
+ *
+ * A postponed event is announced or confirmed again once it has new dates;
+ * a dormant series (no edition for years) can be announced again. An
+ * announced or confirmed event becomes historical on the day after it ends,
+ * without anyone editing it. Every change carries a timestamp.
+ */
+
+import { EventStatus } from "./taxonomy";
+import { MOROCCO_TIMEZONE, todayInMorocco, zonedMidnight } from "./dates";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface StatusTransition {
+  // null for the record's first status
+  from: EventStatus | null;
+  to: EventStatus;
+  // ISO 8601 timestamp
+  at: string;
+  // Set for changes made by the lifecycle itself (historical after end_date)
+  automatic?: true;
+}
+
+/** A status change as recorded on a source record. */
+export interface StatusHistoryRow {
+  status: string;
+  at: string;
+}
+
+export interface Lifecycle {
+  status: EventStatus;
+  status_history: StatusTransition[];
+}
+
+export const EVENT_STATUSES = Object.values(EventStatus) as EventStatus[];
+
+/** Where each status may go next. */
+export const STATUS_TRANSITIONS: Record<EventStatus, EventStatus[]> = {
+  [EventStatus.TENTATIVE]: [EventStatus.ANNOUNCED, EventStatus.CONFIRMED, EventStatus.CANCELLED],
+  [EventStatus.ANNOUNCED]: [EventStatus.CONFIRMED, EventStatus.POSTPONED, EventStatus.CANCELLED, EventStatus.HISTORICAL],
+  [EventStatus.CONFIRMED]: [EventStatus.POSTPONED, EventStatus.CANCELLED, EventStatus.HISTORICAL],
+  [EventStatus.POSTPONED]: [EventStatus.ANNOUNCED, EventStatus.CONFIRMED, EventStatus.CANCELLED],
+  [EventStatus.CANCELLED]: [EventStatus.ARCHIVED],
+  [EventStatus.HISTORICAL]: [EventStatus.ARCHIVED],
+  [EventStatus.DORMANT]: [EventStatus.ANNOUNCED, EventStatus.ARCHIVED],
+  [EventStatus.ARCHIVED]: [],
+};
+
+// Statuses that turn historical once the event is over
+const RUNNING_STATUSES = new Set([EventStatus.ANNOUNCED, EventStatus.CONFIRMED]);
+
+// Not shown unless asked for by status: unconfirmed plans, series on hiatus
+// and retired records. The rest, cancelled and historical included, are public
+export const UNLISTED_STATUSES: readonly EventStatus[] = [
+  EventStatus.TENTATIVE,
+  EventStatus.DORMANT,
+  EventStatus.ARCHIVED,
+];
+
+// Older records said "published" for an event listed on the site
+const LEGACY_STATUSES: Record<string, EventStatus> = {
+  published: EventStatus.ANNOUNCED,
+};
+
+// ============================================================================
+// STATUS
+// ============================================================================
+
+export function isEventStatus(value: unknown): value is EventStatus {
+  return typeof value === "string" && EVENT_STATUSES.includes(value as EventStatus);
+}
+
+/** A record's status, with legacy values mapped; null when unknown. */
+export function parseStatus(value: string | null | undefined): EventStatus | null {
+  const status = (value || "").trim().toLowerCase();
+  if (isEventStatus(status)) return status;
+  return LEGACY_STATUSES[status] || null;
+}
+
+/** Whether events with a status appear in default listings and pages. */
+export function isListedStatus(status: EventStatus): boolean {
+  return !UNLISTED_STATUSES.includes(status);
+}
+
+export function canTransition(from: EventStatus, to: EventStatus): boolean {
+  return STATUS_TRANSITIONS[from].includes(to);
+}
+
+/**
+ * Problems with a recorded history: unknown statuses, timestamps that are
+ * not ISO 8601 or go backwards, and changes STATUS_TRANSITIONS does not
+ * allow. The last entry must be the record's current status.
+ */
+export function checkStatusHistory(history: StatusHistoryRow[], current: string): string[] {
+  const problems: string[] = [];
+  let previous: StatusHistoryRow | null = null;
+
+  history.forEach((entry, i) => {
+    const label = `status_history ${i + 1}`;
+    if (!isEventStatus(entry.status)) {
+      problems.push(`${label}: "${entry.status}" is not one of EventStatus`);
+    }
+    if (typeof entry.at !== "string" || isNaN(Date.parse(entry.at))) {
+      problems.push(`${label}: at "${entry.at}" is not an ISO 8601 timestamp`);
+    } else if (previous && Date.parse(entry.at) < Date.parse(previous.at)) {
+      problems.push(`${label}: at ${entry.at} is before the previous change`);
+    }
+    if (
+      previous &&
+      isEventStatus(previous.status) &&
+      isEventStatus(entry.status) &&
+      !canTransition(previous.status, entry.status)
+    ) {
+      problems.push(`${label}: ${previous.status} cannot become ${entry.status}`);
+    }
+    previous = entry;
+  });
+
+  const last = history[history.length - 1];
+  if (last && last.status !== current) {
+    problems.push(`status_history ends with ${last.status}, not the record's status ${current}`);
+  }
+
+  return problems;
+}
+
+// ============================================================================
+// LIFECYCLE
+// ============================================================================
+
+/**
+ * The lifecycle of a record: its status (legacy values mapped, unknown ones
+ * announced) and the history of changes, plus the automatic change to
+ * historical when an announced or confirmed event ended before today.
+ */
+export function resolveLifecycle(
+  status: string | null | undefined,
+  history: StatusHistoryRow[] | null | undefined,
+  endDate: string | null,
+  today: string = todayInMorocco()
+): Lifecycle {
+  const current = parseStatus(status) || EventStatus.ANNOUNCED;
+
+  const transitions: StatusTransition[] = [];
+  let from: EventStatus | null = null;
+  for (const entry of history || []) {
+    const to = parseStatus(entry.status);
+    if (!to || isNaN(Date.parse(entry.at))) continue;
+    transitions.push({ from, to, at: entry.at });
+    from = to;
+  }
+
+  if (endDate && endDate < today && RUNNING_STATUSES.has(current)) {
+    const dayAfter = new Date(Date.parse(endDate) + 86400000).toISOString().split("T")[0];
+    transitions.push({
+      from: current,
+      to: EventStatus.HISTORICAL,
+      at: zonedMidnight(dayAfter, MOROCCO_TIMEZONE),
+      automatic: true,
+    });
+    return { status: EventStatus.HISTORICAL, status_history: transitions };
+  }
+
+  return { status: current, status_history: transitions };
+}
@@ -0,0 +1,207 @@
+/**
+ * List Responses
+ *
+ * Paging, sorting, sparse fieldsets and response language for the event
+ * list endpoints (/api/events, /api/search, /api/festivals). Responses follow the
+ * PaginatedResponse contract in src/types.ts and come with an RFC 8288
+ * Link header for the first, previous, next and last pages.
+ */
+
+import type { PaginatedResponse } from "../types";
+import type { GeoEvent } from "./geo-search";
+import { LANGS, type Lang, type SheetEvent } from "./repository";
+import { lowestPrice } from "./pricing";
+import type { QueryParams } from "./search";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type SortKey = "date" | "relevance" | "significance" | "price" | "distance";
+
+export const SORT_KEYS: SortKey[] = ["date", "relevance", "significance", "price", "distance"];
+
+export const DEFAULT_PER_PAGE = 20;
+export const MAX_PER_PAGE = 100;
+
+export interface ListQuery {
+  page: number;
+  per_page: number;
+  sort: SortKey;
+  // null returns every field
+  fields: string[] | null;
+  // Language of `name` and `description` (see localizeEvent)
+  lang: Lang;
+}
+
+export type ListQueryResult = { query: ListQuery } | { error: string };
+
+// Always returned, so a sparse record can still be linked and fetched whole
+const REQUIRED_FIELDS = ["id"];
+
+// ============================================================================
+// PARSING
+// ============================================================================
+
+function positiveInt(value: string | string[] | undefined, fallback: number): number {
+  const n = typeof value === "string" ? parseInt(value, 10) : NaN;
+  return Number.isFinite(n) && n >= 1 ? n : fallback;
+}
+
+/**
+ * Read page, per_page, sort, fields and lang from the query string. `per_page` is
+ * capped at MAX_PER_PAGE; unknown sort keys and field names are errors, so a
+ * typo does not silently return something else. `knownFields` are the keys
+ * of the records being listed.
+ */
+export function parseListQuery(
+  params: QueryParams,
+  defaultSort: SortKey,
+  knownFields: string[]
+): ListQueryResult {
+  const sort = typeof params.sort === "string" && params.sort ? params.sort : defaultSort;
+  if (!SORT_KEYS.includes(sort as SortKey)) {
+    return { error: `Invalid sort "${sort}". Use one of: ${SORT_KEYS.join(", ")}` };
+  }
+
+  const lang = typeof params.lang === "string" && params.lang ? params.lang : "en";
+  if (!LANGS.includes(lang as Lang)) {
+    return { error: `Invalid lang "${lang}". Use one of: ${LANGS.join(", ")}` };
+  }
+
+  let fields: string[] | null = null;
+  if (typeof params.fields === "string" && params.fields.trim()) {
+    fields = params.fields
+      .split(",")
+      .map((f) => f.trim())
+      .filter(Boolean);
+    const unknown = fields.filter((f) => !knownFields.includes(f));
+    // With nothing to compare against (no results), any field is accepted
+    if (knownFields.length > 0 && unknown.length > 0) {
+      return { error: `Unknown fields: ${unknown.join(", ")}` };
+    }
+  }
+
+  return {
+    query: {
+      page: positiveInt(params.page, 1),
+      per_page: Math.min(positiveInt(params.per_page, DEFAULT_PER_PAGE), MAX_PER_PAGE),
+      sort: sort as SortKey,
+      fields,
+      lang: lang as Lang,
+    },
+  };
+}
+
+// ============================================================================
+// SORTING
+// ============================================================================
+
+function pinnedFirst(a: SheetEvent, b: SheetEvent): number {
+  if (a.is_pinned && !b.is_pinned) return -1;
+  if (!a.is_pinned && b.is_pinned) return 1;
+  return 0;
+}
+
+/**
+ * Order events by a sort key. `relevance` keeps the order they arrive in,
+ * which is the search ranking when there is a text query; `distance` puts
+ * events without a `distance_km` (see geo-search.ts) last.
+ */
+export function sortEvents<T extends GeoEvent>(events: T[], sort: SortKey): T[] {
+  const sorted = [...events];
+
+  switch (sort) {
+    case "relevance":
+      return sorted;
+    case "significance":
+      return sorted.sort(
+        (a, b) =>
+          pinnedFirst(a, b) ||
+          b.cultural_significance - a.cultural_significance ||
+          a.start_date.localeCompare(b.start_date)
+      );
+    case "distance":
+      return sorted.sort(
+        (a, b) =>
+          (a.distance_km ?? Infinity) - (b.distance_km ?? Infinity) ||
+          a.start_date.localeCompare(b.start_date)
+      );
+    case "price": {
+      // Cheapest ticket on sale, compared in MAD whatever the event's currency
+      const prices = new Map(sorted.map((e) => [e.id, lowestPrice(e)]));
+      return sorted.sort(
+        (a, b) =>
+          prices.get(a.id)! - prices.get(b.id)! || a.start_date.localeCompare(b.start_date)
+      );
+    }
+    case "date":
+    default:
+      return sorted.sort(
+        (a, b) => pinnedFirst(a, b) || a.start_date.localeCompare(b.start_date)
+      );
+  }
+}
+
+// ============================================================================
+// PAGING
+// ============================================================================
+
+export function selectFields<T extends object>(item: T, fields: string[] | null): Partial<T> {
+  if (!fields) return item;
+  const selected: Partial<T> = {};
+  for (const field of [...REQUIRED_FIELDS, ...fields]) {
+    if (field in item) {
+      selected[field as keyof T] = item[field as keyof T];
+    }
+  }
+  return selected;
+}
+
+export function paginate<T extends object>(
+  items: T[],
+  query: ListQuery
+): PaginatedResponse<Partial<T>> {
+  const total = items.length;
+  const start = (query.page - 1) * query.per_page;
+
+  return {
+    data: items
+      .slice(start, start + query.per_page)
+      .map((item) => selectFields(item, query.fields)),
+    meta: {
+      total,
+      page: query.page,
+      per_page: query.per_page,
+      total_pages: Math.max(1, Math.ceil(total / query.per_page)),
+    },
+  };
+}
+
+/**
+ * Link header value for a paged response, built on the request URL so every
+ * other parameter (filters, sort, fields) is kept. Relative references, as
+ * RFC 8288 allows.
+ */
+export function buildLinkHeader(
+  requestUrl: string,
+  meta: PaginatedResponse<unknown>["meta"]
+): string {
+  const url = new URL(requestUrl, "http://localhost");
+
+  const link = (page: number, rel: string) => {
+    url.searchParams.set("page", String(page));
+    return `<${url.pathname}${url.search}>; rel="${rel}"`;
+  };
+
+  const links = [link(1, "first")];
+  if (meta.page > 1) {
+    links.push(link(Math.min(meta.page - 1, meta.total_pages), "prev"));
+  }
+  if (meta.page < meta.total_pages) {
+    links.push(link(meta.page + 1, "next"));
+  }
+  links.push(link(meta.total_pages, "last"));
+
+  return links.join(", ");
+}
@@ -0,0 +1,386 @@
+/**
+ * Trip Planner
+ *
+ * "I'm in Morocco 10-24 June, Marrakech to Fes: what can I catch?" Builds an
+ * ordered itinerary of events inside a date window, optionally along a route
+ * (an ordered list of places, or a start and an end), that a traveller can
+ * reach without covering more than `max_daily_km` a day. Distances are
+ * straight-line (haversine), so road distances are longer; keep the daily
+ * limit conservative.
+ *
+ * Each stop is one event on one day; events at the same place can share a
+ * day. The planner keeps the most events it can fit (pinned events count a
+ * little more), then the fewest kilometres, and lists for every stop the
+ * overlapping events it could be swapped for.
+ */
+
+import { getEventsInRange, type SheetEvent } from "./repository";
+import { eventLocation, haversineKm, type GeoPoint } from "./geo-search";
+import { resolvePlace } from "./gazetteer";
+import { isIsoDate } from "./validation";
+import type { QueryParams } from "./search";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface PlanRequest {
+  from: string;
+  to: string;
+  // Ordered points to travel through: start, stops, end. Empty to roam freely
+  route: GeoPoint[];
+  max_daily_km: number;
+  // How far from the route an event may be
+  detour_km: number;
+}
+
+export interface PlanAlternate {
+  event: SheetEvent;
+  day: string;
+  // From the stop it could replace
+  distance_km: number;
+}
+
+export interface PlanStop {
+  event: SheetEvent;
+  // The day spent at the event
+  day: string;
+  // From the previous stop, or from the start of the route
+  travel_km: number;
+  alternates: PlanAlternate[];
+}
+
+export interface Plan {
+  stops: PlanStop[];
+  total_km: number;
+  // Events in the window (and near the route) the planner chose from
+  candidates: number;
+}
+
+export type PlanRequestResult = { request: PlanRequest } | { error: string };
+
+export const DEFAULT_MAX_DAILY_KM = 300;
+export const DEFAULT_DETOUR_KM = 100;
+export const MAX_WINDOW_DAYS = 60;
+
+// Two events this close are the same place: both can be seen the same day
+const SAME_PLACE_KM = 25;
+
+// Along a route, how far back toward the start a stop may be
+const BACKTRACK_KM = 50;
+
+const MAX_ALTERNATES = 3;
+
+// ============================================================================
+// DATE HELPERS
+// ============================================================================
+
+const MS_PER_DAY = 86400000;
+
+function addDays(iso: string, days: number): string {
+  return new Date(Date.parse(iso) + days * MS_PER_DAY).toISOString().split("T")[0];
+}
+
+function daysBetween(from: string, to: string): number {
+  return Math.round((Date.parse(to) - Date.parse(from)) / MS_PER_DAY);
+}
+
+// ============================================================================
+// PARSING
+// ============================================================================
+
+/** A place in the gazetteer or "lat,lng". */
+function parsePoint(value: string): GeoPoint | null {
+  const place = resolvePlace(value);
+  if (place) return { lat: place.lat, lng: place.lng };
+
+  const parts = value.split(",").map((p) => Number(p.trim()));
+  if (parts.length !== 2 || !parts.every(Number.isFinite)) return null;
+  const [lat, lng] = parts;
+  return lat >= -90 && lat <= 90 && lng >= -180 && lng <= 180 ? { lat, lng } : null;
+}
+
+function parseNumber(value: unknown, fallback: number, min: number, max: number): number | null {
+  if (typeof value !== "string" || value === "") return fallback;
+  const n = Number(value);
+  return Number.isFinite(n) && n >= min && n <= max ? n : null;
+}
+
+/**
+ * Read a plan from the query string.
+ *
+ * - `from`, `to`: the window (YYYY-MM-DD, at most MAX_WINDOW_DAYS days)
+ * - `cities=marrakech,fes`: places to pass through, in order
+ * - `start`, `end`: a place or lat,lng, before and after `cities`
+ * - `max_daily_km` (default 300), `detour_km` (default 100)
+ */
+export function parsePlanRequest(params: QueryParams): PlanRequestResult {
+  const from = typeof params.from === "string" ? params.from : "";
+  const to = typeof params.to === "string" ? params.to : "";
+  // Calendar dates only: 2026-02-30 is refused, not rolled over to March
+  if (!isIsoDate(from)) {
+    return { error: "from must be a valid date (YYYY-MM-DD)" };
+  }
+  if (!isIsoDate(to)) {
+    return { error: "to must be a valid date (YYYY-MM-DD)" };
+  }
+  if (to < from) {
+    return { error: "to is before from" };
+  }
+  if (daysBetween(from, to) >= MAX_WINDOW_DAYS) {
+    return { error: `The window is limited to ${MAX_WINDOW_DAYS} days` };
+  }
+
+  const names: string[] = [];
+  if (typeof params.start === "string" && params.start) names.push(params.start);
+  const cities = Array.isArray(params.cities) ? params.cities.join(",") : params.cities || "";
+  names.push(...cities.split(",").map((c) => c.trim()).filter(Boolean));
+  if (typeof params.end === "string" && params.end) names.push(params.end);
+
+  const route: GeoPoint[] = [];
+  for (const name of names) {
+    const point = parsePoint(name);
+    if (!point) {
+      return { error: `Unknown place "${name}". Use a place name or lat,lng` };
+    }
+    route.push(point);
+  }
+
+  const maxDailyKm = parseNumber(params.max_daily_km, DEFAULT_MAX_DAILY_KM, 10, 1000);
+  if (maxDailyKm === null) {
+    return { error: `Invalid max_daily_km "${params.max_daily_km}". Use km, 10 to 1000` };
+  }
+  const detourKm = parseNumber(params.detour_km, DEFAULT_DETOUR_KM, 0, 500);
+  if (detourKm === null) {
+    return { error: `Invalid detour_km "${params.detour_km}". Use km, up to 500` };
+  }
+
+  return { request: { from, to, route, max_daily_km: maxDailyKm, detour_km: detourKm } };
+}
+
+// ============================================================================
+// ROUTE GEOMETRY
+// ============================================================================
+
+interface RoutePosition {
+  // Distance from the route's start, along it
+  progress_km: number;
+  // Distance from the route itself
+  offset_km: number;
+}
+
+/**
+ * Where a point sits relative to a route, using a local flat projection of
+ * each leg (fine at the scale of Morocco).
+ */
+function routePosition(point: GeoPoint, route: GeoPoint[]): RoutePosition {
+  if (route.length === 1) {
+    return { progress_km: 0, offset_km: haversineKm(route[0], point) };
+  }
+
+  let best: RoutePosition = { progress_km: 0, offset_km: Infinity };
+  let travelled = 0;
+
+  for (let i = 0; i + 1 < route.length; i++) {
+    const a = route[i];
+    const b = route[i + 1];
+    const legKm = haversineKm(a, b);
+
+    // Project onto the leg in a plane scaled at the leg's latitude
+    const kx = Math.cos(((a.lat + b.lat) / 2) * (Math.PI / 180));
+    const dx = (b.lng - a.lng) * kx;
+    const dy = b.lat - a.lat;
+    const px = (point.lng - a.lng) * kx;
+    const py = point.lat - a.lat;
+    const lengthSq = dx * dx + dy * dy;
+    const t = lengthSq === 0 ? 0 : Math.max(0, Math.min(1, (px * dx + py * dy) / lengthSq));
+
+    const nearest = { lat: a.lat + t * (b.lat - a.lat), lng: a.lng + t * (b.lng - a.lng) };
+    const offset = haversineKm(nearest, point);
+    if (offset < best.offset_km) {
+      best = { progress_km: travelled + t * legKm, offset_km: offset };
+    }
+    travelled += legKm;
+  }
+
+  return best;
+}
+
+// ============================================================================
+// PLANNING
+// ============================================================================
+
+interface Visit {
+  event: SheetEvent;
+  day: string;
+  location: GeoPoint;
+  progress_km: number;
+}
+
+function visitScore(visit: Visit): number {
+  return 1 + (visit.event.is_pinned ? 0.25 : 0) + visit.event.cultural_significance / 100;
+}
+
+/** Can a traveller at `from` on `fromDay` be at `to` on `toDay`? */
+function reachable(
+  from: GeoPoint,
+  fromDay: string,
+  to: GeoPoint,
+  toDay: string,
+  maxDailyKm: number
+): boolean {
+  const days = daysBetween(fromDay, toDay);
+  if (days < 0) return false;
+  const distance = haversineKm(from, to);
+  return distance <= SAME_PLACE_KM || distance <= days * maxDailyKm;
+}
+
+/**
+ * Plan an itinerary. Visits (an event on one of its days) are ordered by day
+ * and chained by dynamic programming: each keeps the best path to it that is
+ * reachable in time, follows the route forward and does not see an event
+ * twice.
+ */
+export function planTrip(events: SheetEvent[], request: PlanRequest): Plan {
+  const { from, to, route, max_daily_km: maxDailyKm } = request;
+  const start = route[0];
+  const end = route.length > 1 ? route[route.length - 1] : undefined;
+
+  // Candidate events: in the window, located, near the route
+  const candidates: { event: SheetEvent; location: GeoPoint; progress_km: number }[] = [];
+  for (const event of getEventsInRange(events, from, to)) {
+    const location = eventLocation(event);
+    if (!location) continue;
+    const position = route.length > 0 ? routePosition(location, route) : null;
+    if (position && position.offset_km > request.detour_km) continue;
+    candidates.push({ event, location, progress_km: position?.progress_km ?? 0 });
+  }
+
+  // One visit per event and day inside the window
+  const visits: Visit[] = [];
+  for (const candidate of candidates) {
+    const first = candidate.event.start_date > from ? candidate.event.start_date : from;
+    const endDate = candidate.event.end_date || candidate.event.start_date;
+    const last = endDate < to ? endDate : to;
+    for (let day = first; day <= last; day = addDays(day, 1)) {
+      visits.push({ ...candidate, day });
+    }
+  }
+  visits.sort(
+    (a, b) => a.day.localeCompare(b.day) || a.progress_km - b.progress_km
+  );
+
+  // The route's start counts as a visit the day before the window opens, so
+  // the first day can be spent travelling
+  const startDay = addDays(from, -1);
+  const canStartAt = (v: Visit) =>
+    !start || reachable(start, startDay, v.location, v.day, maxDailyKm);
+  const canEndFrom = (v: Visit) =>
+    !end || reachable(v.location, v.day, end, to, maxDailyKm);
+
+  const best: { score: number; km: number; previous: number | null }[] = [];
+
+  visits.forEach((visit, i) => {
+    best[i] = canStartAt(visit)
+      ? { score: visitScore(visit), km: start ? haversineKm(start, visit.location) : 0, previous: null }
+      : { score: -Infinity, km: 0, previous: null };
+
+    for (let j = 0; j < i; j++) {
+      const prior = visits[j];
+      if (best[j].score === -Infinity) continue;
+      if (!reachable(prior.location, prior.day, visit.location, visit.day, maxDailyKm)) continue;
+      // Same day only at the same place, and only forward along a route
+      if (prior.day === visit.day && haversineKm(prior.location, visit.location) > SAME_PLACE_KM) continue;
+      if (route.length > 1 && visit.progress_km < prior.progress_km - BACKTRACK_KM) continue;
+      if (pathHas(visits, best, j, visit.event.id)) continue;
+
+      const score = best[j].score + visitScore(visit);
+      const km = best[j].km + haversineKm(prior.location, visit.location);
+      if (score > best[i].score || (score === best[i].score && km < best[i].km)) {
+        best[i] = { score, km, previous: j };
+      }
+    }
+  });
+
+  // Best path that can still reach the end of the route in time
+  let last: number | null = null;
+  visits.forEach((visit, i) => {
+    if (best[i].score === -Infinity || !canEndFrom(visit)) return;
+    const total = best[i].km + (end ? haversineKm(visit.location, end) : 0);
+    const lastTotal =
+      last === null ? Infinity : best[last].km + (end ? haversineKm(visits[last].location, end) : 0);
+    if (last === null || best[i].score > best[last].score || (best[i].score === best[last].score && total < lastTotal)) {
+      last = i;
+    }
+  });
+
+  const path: Visit[] = [];
+  for (let i: number | null = last; i !== null; i = best[i].previous) {
+    path.unshift(visits[i]);
+  }
+
+  const chosen = new Set(path.map((v) => v.event.id));
+  const stops = path.map((visit, i): PlanStop => {
+    const previous = i > 0 ? path[i - 1] : null;
+    const next = path[i + 1] || null;
+    const origin = previous ? previous.location : start;
+    return {
+      event: visit.event,
+      day: visit.day,
+      travel_km: origin ? Math.round(haversineKm(origin, visit.location)) : 0,
+      alternates: alternatesFor(visit, previous, next, visits, chosen, request),
+    };
+  });
+
+  const travel = stops.reduce((sum, stop) => sum + stop.travel_km, 0);
+  const lastStop = path[path.length - 1];
+
+  return {
+    stops,
+    total_km: travel + (end && lastStop ? Math.round(haversineKm(lastStop.location, end)) : 0),
+    candidates: candidates.length,
+  };
+}
+
+function pathHas(
+  visits: Visit[],
+  best: { previous: number | null }[],
+  from: number,
+  eventId: string
+): boolean {
+  for (let i: number | null = from; i !== null; i = best[i].previous) {
+    if (visits[i].event.id === eventId) return true;
+  }
+  return false;
+}
+
+/**
+ * Events on the same day as a stop that would fit in its place: reachable
+ * from the previous stop and still leaving time to reach the next one.
+ */
+function alternatesFor(
+  stop: Visit,
+  previous: Visit | null,
+  next: Visit | null,
+  visits: Visit[],
+  chosen: Set<string>,
+  request: PlanRequest
+): PlanAlternate[] {
+  const { max_daily_km: maxDailyKm } = request;
+
+  return visits
+    .filter(
+      (v) =>
+        v.day === stop.day &&
+        !chosen.has(v.event.id) &&
+        (!previous || reachable(previous.location, previous.day, v.location, v.day, maxDailyKm)) &&
+        (!next || reachable(v.location, v.day, next.location, next.day, maxDailyKm))
+    )
+    .map((v) => ({
+      event: v.event,
+      day: v.day,
+      distance_km: Math.round(haversineKm(stop.location, v.location)),
+    }))
+    .sort((a, b) => a.distance_km - b.distance_km)
+    .slice(0, MAX_ALTERNATES);
+}
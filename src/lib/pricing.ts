@@ -0,0 +1,235 @@
+/**
+ * Pricing
+ *
+ * Ticket prices with their currency and tiers, converted for visitors who
+ * think in euros, dollars or pounds. Records are priced in dirhams (MAD)
+ * unless they say otherwise; conversion uses the hand-kept rate table in
+ * data/exchange-rates.ts, never a live feed, so a price reads the same on
+ * every page until the table is updated.
+ *
+ * - `price_min` / `price_max`: the range, in the record's `price_currency`
+ * - `price_tiers`: early bird, day pass, full pass, each with an amount and,
+ *   for early-bird tickets, the last day of sale
+ * - `price_is_free`: free to attend (a free record may still sell passes)
+ */
+
+import { exchangeRatesAsOf, madPerUnit } from "./data/exchange-rates";
+import { todayInMorocco } from "./dates";
+import type { SheetEvent } from "./repository";
+import type { QueryParams } from "./search";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export const CURRENCIES = ["MAD", "EUR", "USD", "GBP"] as const;
+export type Currency = (typeof CURRENCIES)[number];
+
+export const DEFAULT_CURRENCY: Currency = "MAD";
+
+export const PRICE_TIERS = ["early_bird", "standard", "day_pass", "full_pass"] as const;
+export type PriceTierKind = (typeof PRICE_TIERS)[number];
+
+export const PriceTierLabels: Record<PriceTierKind, string> = {
+  early_bird: "Early bird",
+  standard: "Standard ticket",
+  day_pass: "Day pass",
+  full_pass: "Full pass",
+};
+
+/** A tier as recorded on a source record. */
+export interface PriceTierRow {
+  tier: string;
+  amount: number;
+  // YYYY-MM-DD, last day the tier is sold (early bird)
+  until?: string | null;
+}
+
+export interface PriceTier {
+  tier: PriceTierKind;
+  amount: number;
+  until: string | null;
+}
+
+/** An event's prices in one currency, as returned by the API. */
+export interface EventPrice {
+  currency: Currency;
+  is_free: boolean;
+  // Cheapest ticket still on sale; 0 when free
+  min: number;
+  max: number;
+  tiers: (PriceTier & { label: string; on_sale: boolean })[];
+  // The event's own currency when the amounts were converted, else null
+  converted_from: Currency | null;
+  rates_as_of: string | null;
+}
+
+export interface PriceQuery {
+  currency: Currency;
+  // Cheapest ticket at most this much, in `currency`
+  price_max: number | null;
+  // true: free only; false: paid only
+  free: boolean | null;
+}
+
+export type PriceQueryResult = { query: PriceQuery } | { error: string };
+
+// ============================================================================
+// CURRENCIES
+// ============================================================================
+
+export function isCurrency(value: unknown): value is Currency {
+  return CURRENCIES.includes(value as Currency);
+}
+
+export function isPriceTier(value: unknown): value is PriceTierKind {
+  return PRICE_TIERS.includes(value as PriceTierKind);
+}
+
+/** Convert an amount between currencies through MAD, to the cent. */
+export function convertAmount(amount: number, from: Currency, to: Currency): number {
+  if (from === to) return amount;
+  return Math.round(((amount * madPerUnit[from]) / madPerUnit[to]) * 100) / 100;
+}
+
+/** "300 MAD", "28.44 EUR". */
+export function formatPrice(amount: number, currency: Currency): string {
+  return `${amount} ${currency}`;
+}
+
+/**
+ * Valid tiers of a record, in the order given. Unknown tiers and amounts
+ * that are not positive numbers are dropped (the data lint reports them).
+ */
+export function parsePriceTiers(rows: PriceTierRow[] | null | undefined): PriceTier[] {
+  return (rows || [])
+    .filter((row) => isPriceTier(row.tier) && Number.isFinite(row.amount) && row.amount > 0)
+    .map((row) => ({ tier: row.tier as PriceTierKind, amount: row.amount, until: row.until || null }));
+}
+
+/** Why a record's currency, range or tiers are wrong; empty when they are not. */
+export function checkPricing(
+  currency: string | null | undefined,
+  min: number | null | undefined,
+  max: number | null | undefined,
+  tiers: PriceTierRow[] | null | undefined
+): string[] {
+  const errors: string[] = [];
+  if (currency && !isCurrency(currency)) {
+    errors.push(`price_currency "${currency}" is not one of ${CURRENCIES.join(", ")}`);
+  }
+  if (min != null && max != null && max > 0 && min > max) {
+    errors.push(`price_min ${min} is above price_max ${max}`);
+  }
+  for (const row of tiers || []) {
+    if (!isPriceTier(row.tier)) {
+      errors.push(`price tier "${row.tier}" is not one of ${PRICE_TIERS.join(", ")}`);
+    } else if (!Number.isFinite(row.amount) || row.amount <= 0) {
+      errors.push(`price tier ${row.tier} has no amount`);
+    } else if (row.until && !/^\d{4}-\d{2}-\d{2}$/.test(row.until)) {
+      errors.push(`price tier ${row.tier} until "${row.until}" is not YYYY-MM-DD`);
+    }
+  }
+  return errors;
+}
+
+// ============================================================================
+// EVENT PRICES
+// ============================================================================
+
+// Tiers past their last day of sale no longer set the lowest price
+function onSale(tier: PriceTier, today: string): boolean {
+  return !tier.until || tier.until >= today;
+}
+
+/** Cheapest way into an event, in a currency: 0 when free. */
+export function lowestPrice(event: SheetEvent, currency: Currency = DEFAULT_CURRENCY): number {
+  if (event.price_isFree) return 0;
+  const today = todayInMorocco();
+  const amounts = [
+    event.price_min,
+    ...event.price_tiers.filter((t) => onSale(t, today)).map((t) => t.amount),
+  ];
+  return convertAmount(Math.min(...amounts), event.price_currency, currency);
+}
+
+/** An event's prices in a currency, tiers included. */
+export function eventPrice(event: SheetEvent, currency: Currency = DEFAULT_CURRENCY): EventPrice {
+  const from = event.price_currency;
+  const today = todayInMorocco();
+  const converted = from !== currency;
+
+  return {
+    currency,
+    is_free: event.price_isFree,
+    min: lowestPrice(event, currency),
+    max: convertAmount(
+      Math.max(event.price_max, ...event.price_tiers.map((t) => t.amount)),
+      from,
+      currency
+    ),
+    tiers: event.price_tiers.map((t) => ({
+      ...t,
+      amount: convertAmount(t.amount, from, currency),
+      label: PriceTierLabels[t.tier],
+      on_sale: onSale(t, today),
+    })),
+    converted_from: converted ? from : null,
+    rates_as_of: converted ? exchangeRatesAsOf : null,
+  };
+}
+
+/** The event with its `price` in a currency. */
+export function withPrice<T extends SheetEvent>(event: T, currency: Currency): T & { price: EventPrice } {
+  return { ...event, price: eventPrice(event, currency) };
+}
+
+// ============================================================================
+// QUERY
+// ============================================================================
+
+/**
+ * Read `currency`, `price_max` and `free` from the query string.
+ *
+ * - `currency=EUR` shows prices in euros (default MAD); `price_max` is in it
+ * - `price_max=200` keeps events whose cheapest ticket costs at most 200,
+ *   free ones included
+ * - `free=true` keeps free events only, `free=false` paid ones
+ */
+export function parsePriceQuery(params: QueryParams): PriceQueryResult {
+  const query: PriceQuery = { currency: DEFAULT_CURRENCY, price_max: null, free: null };
+
+  if (typeof params.currency === "string" && params.currency) {
+    const currency = params.currency.toUpperCase();
+    if (!isCurrency(currency)) {
+      return { error: `Invalid currency "${params.currency}". Use one of: ${CURRENCIES.join(", ")}` };
+    }
+    query.currency = currency;
+  }
+
+  if (typeof params.price_max === "string" && params.price_max) {
+    const max = Number(params.price_max);
+    if (!Number.isFinite(max) || max < 0) {
+      return { error: `Invalid price_max "${params.price_max}". Use an amount in ${query.currency}` };
+    }
+    query.price_max = max;
+  }
+
+  if (typeof params.free === "string" && params.free) {
+    if (params.free !== "true" && params.free !== "false") {
+      return { error: "free must be true or false" };
+    }
+    query.free = params.free === "true";
+  }
+
+  return { query };
+}
+
+/** Apply a price query's filters; order is kept. */
+export function applyPriceQuery<T extends SheetEvent>(events: T[], query: PriceQuery): T[] {
+  return events.filter(
+    (e) =>
+      (query.free === null || e.price_isFree === query.free) &&
+      (query.price_max === null || lowestPrice(e, query.currency) <= query.price_max)
+  );
+}
@@ -0,0 +1,368 @@
+/**
+ * Date Projection
+ *
+ * Predicts the date window of a recurring event's next edition from its
+ * historical editions, its recurrence notes ("usually mid-September") and its
+ * season, with a confidence between 0 and 1. Used for agricultural and
+ * approximate-annual events that have not announced their dates yet, so they
+ * can still be placed on a calendar as "expected".
+ *
+ * Lunar events are projected exactly from the Hijri calendar instead (see
+ * hijri.ts).
+ */
+
+import { TemporalType, type EventTiming, type Season } from "./taxonomy";
+import type { SheetEvent } from "./repository";
+import { getSeries, type SeriesEdition } from "./series";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type ProjectionBasis = "history" | "recurrence_notes" | "season";
+
+export interface DateWindow {
+  start: string;
+  end: string;
+}
+
+export interface ProjectedDates {
+  year: number;
+  // Best guess
+  start_date: string;
+  end_date: string;
+  // Earliest start to latest end the event is likely to occupy
+  window: DateWindow;
+  confidence: number;
+  basis: ProjectionBasis[];
+}
+
+export interface PastDates {
+  start_date: string;
+  end_date: string | null;
+}
+
+/** A future edition projected from an earlier record. */
+export interface ExpectedEvent extends SheetEvent {
+  projection: ProjectedDates;
+}
+
+// Temporal types whose next edition can be predicted from the past
+const PROJECTABLE_TYPES = new Set<TemporalType>([
+  TemporalType.FIXED_ANNUAL,
+  TemporalType.APPROXIMATE_ANNUAL,
+  TemporalType.AGRICULTURAL,
+]);
+
+// Editions beyond this many years back say little about the next one
+const MAX_HISTORY = 5;
+
+// ============================================================================
+// DATE HELPERS
+// ============================================================================
+
+const MS_PER_DAY = 86400000;
+
+const MONTHS: Record<string, number> = {
+  january: 1, janvier: 1,
+  february: 2, fevrier: 2,
+  march: 3, mars: 3,
+  april: 4, avril: 4,
+  may: 5, mai: 5,
+  june: 6, juin: 6,
+  july: 7, juillet: 7,
+  august: 8, aout: 8,
+  september: 9, septembre: 9,
+  october: 10, octobre: 10,
+  november: 11, novembre: 11,
+  december: 12, decembre: 12,
+};
+
+// Meteorological seasons; a year's winter starts the December before
+const SEASON_MONTHS: Record<Season, [number, number]> = {
+  winter: [12, 2],
+  spring: [3, 5],
+  summer: [6, 8],
+  autumn: [9, 11],
+};
+
+function toIso(date: Date): string {
+  return date.toISOString().split("T")[0];
+}
+
+function utc(year: number, month: number, day: number): Date {
+  return new Date(Date.UTC(year, month - 1, day));
+}
+
+function daysInMonth(year: number, month: number): number {
+  return utc(year, month + 1, 0).getUTCDate();
+}
+
+function addDays(iso: string, days: number): string {
+  return toIso(new Date(Date.parse(iso) + days * MS_PER_DAY));
+}
+
+function daysBetween(from: string, to: string): number {
+  return Math.round((Date.parse(to) - Date.parse(from)) / MS_PER_DAY);
+}
+
+/** The same month and day in another year (Feb 29 becomes Feb 28). */
+function sameDayIn(iso: string, year: number): string {
+  const [, m, d] = iso.split("-").map(Number);
+  return toIso(utc(year, m, Math.min(d, daysInMonth(year, m))));
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : Math.round((sorted[mid - 1] + sorted[mid]) / 2);
+}
+
+function round(value: number): number {
+  return Math.round(Math.min(0.95, Math.max(0.05, value)) * 100) / 100;
+}
+
+// ============================================================================
+// SOURCES
+// ============================================================================
+
+interface Estimate {
+  start_date: string;
+  duration: number;
+  window: DateWindow;
+  confidence: number;
+}
+
+/**
+ * Past editions mapped onto the target year: median start and duration,
+ * window spanning every mapped edition. More editions and a tighter spread
+ * mean more confidence.
+ */
+function fromHistory(history: PastDates[], year: number): Estimate | null {
+  const recent = history
+    .filter((h) => h.start_date)
+    .sort((a, b) => b.start_date.localeCompare(a.start_date))
+    .slice(0, MAX_HISTORY);
+  if (recent.length === 0) return null;
+
+  const jan1 = `${year}-01-01`;
+  const offsets = recent.map((h) => daysBetween(jan1, sameDayIn(h.start_date, year)));
+  const durations = recent.map((h) =>
+    h.end_date ? daysBetween(h.start_date, h.end_date) + 1 : 1
+  );
+
+  const start_date = addDays(jan1, median(offsets));
+  const duration = median(durations);
+  const spread = Math.max(...offsets) - Math.min(...offsets);
+  // Festivals move to keep their weekday, so even a fixed date drifts
+  const padding = recent.length === 1 ? 3 : 1;
+
+  const confidence =
+    Math.min(0.8, 0.5 + 0.1 * recent.length) - (spread > 14 ? 0.2 : spread > 7 ? 0.1 : 0);
+
+  return {
+    start_date,
+    duration,
+    window: {
+      start: addDays(jan1, Math.min(...offsets) - padding),
+      end: addDays(jan1, Math.max(...offsets) + Math.max(...durations) - 1 + padding),
+    },
+    confidence,
+  };
+}
+
+/**
+ * Reads "late June", "early-mid May", "mid-to-late November", "around 15th of
+ * August" or a bare month name from free-text recurrence notes.
+ */
+export function parseRecurrenceNotes(notes: string, year: number): DateWindow | null {
+  const text = notes
+    .toLowerCase()
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "");
+
+  const monthMatch = text.match(new RegExp(`\\b(${Object.keys(MONTHS).join("|")})\\b`));
+  if (!monthMatch) return null;
+
+  const month = MONTHS[monthMatch[1]];
+  const last = daysInMonth(year, month);
+  const before = text.slice(0, monthMatch.index);
+
+  const day = before.match(/(\d{1,2})(?:st|nd|rd|th|er)?\s*(?:of\s*)?$/);
+  if (day) {
+    const d = Math.min(parseInt(day[1], 10), last);
+    const date = toIso(utc(year, month, d));
+    return { start: addDays(date, -3), end: addDays(date, 3) };
+  }
+
+  // Qualifiers directly in front of the month ("early-mid", "mid-to-late")
+  const qualifiers =
+    (before.match(/(?:\b(?:early|mid|mi|late|debut|fin|to|a)\b|[\s-])+$/) || [""])[0];
+  const parts: [number, number][] = [];
+  if (/early|debut/.test(qualifiers)) parts.push([1, 10]);
+  if (/\bmid?\b/.test(qualifiers)) parts.push([11, 20]);
+  if (/late|fin/.test(qualifiers)) parts.push([21, last]);
+  if (parts.length === 0) parts.push([1, last]);
+
+  return {
+    start: toIso(utc(year, month, Math.min(...parts.map((p) => p[0])))),
+    end: toIso(utc(year, month, Math.max(...parts.map((p) => p[1])))),
+  };
+}
+
+function seasonWindow(season: Season, year: number): DateWindow {
+  const [from, to] = SEASON_MONTHS[season];
+  const startYear = to < from ? year - 1 : year;
+  return {
+    start: toIso(utc(startYear, from, 1)),
+    end: toIso(utc(year, to, daysInMonth(year, to))),
+  };
+}
+
+function within(date: string, window: DateWindow): boolean {
+  return date >= window.start && date <= window.end;
+}
+
+// ============================================================================
+// PROJECTION
+// ============================================================================
+
+/**
+ * Predict the dates of an event in `year`. History wins when there is any;
+ * notes and season then only raise confidence when they agree with it.
+ * Returns null when nothing is known about the timing.
+ */
+export function projectDates(
+  timing: EventTiming,
+  history: PastDates[],
+  year: number
+): ProjectedDates | null {
+  const past = fromHistory(history, year);
+  const notes = timing.recurrence_notes
+    ? parseRecurrenceNotes(timing.recurrence_notes, year)
+    : null;
+  const season = timing.season ? seasonWindow(timing.season, year) : null;
+
+  // Seasonal events follow the weather, not the calendar
+  const seasonal =
+    timing.temporal_type === TemporalType.AGRICULTURAL ||
+    timing.temporal_type === TemporalType.APPROXIMATE_ANNUAL;
+
+  let estimate: Estimate;
+  const basis: ProjectionBasis[] = [];
+
+  if (past) {
+    estimate = { ...past, confidence: past.confidence - (seasonal ? 0.1 : 0) };
+    basis.push("history");
+    if (notes && within(past.start_date, notes)) {
+      estimate.confidence += 0.1;
+      basis.push("recurrence_notes");
+    }
+    if (season && within(past.start_date, season)) {
+      basis.push("season");
+    }
+  } else if (notes) {
+    const span = daysBetween(notes.start, notes.end) + 1;
+    estimate = {
+      start_date: addDays(notes.start, Math.floor(span / 3)),
+      duration: timing.duration_days || 3,
+      window: notes,
+      confidence: span <= 7 ? 0.55 : span <= 20 ? 0.45 : 0.35,
+    };
+    basis.push("recurrence_notes");
+    if (season && within(estimate.start_date, season)) {
+      estimate.confidence += 0.05;
+      basis.push("season");
+    }
+  } else if (season) {
+    const span = daysBetween(season.start, season.end) + 1;
+    estimate = {
+      start_date: addDays(season.start, Math.floor(span / 2)),
+      duration: timing.duration_days || 3,
+      window: season,
+      confidence: 0.2,
+    };
+    basis.push("season");
+  } else {
+    return null;
+  }
+
+  const end_date = addDays(estimate.start_date, estimate.duration - 1);
+  return {
+    year,
+    start_date: estimate.start_date,
+    end_date,
+    window: {
+      start: estimate.window.start,
+      end: end_date > estimate.window.end ? end_date : estimate.window.end,
+    },
+    confidence: round(estimate.confidence),
+    basis,
+  };
+}
+
+// ============================================================================
+// EXPECTED EVENTS
+// ============================================================================
+
+function editionDates(edition: SeriesEdition): PastDates {
+  return { start_date: edition.start_date, end_date: edition.end_date };
+}
+
+/**
+ * Recurring events with no record in `year`, projected from their latest
+ * record and their series history. Only years after the latest known edition
+ * are projected.
+ */
+export function getExpectedEvents(events: SheetEvent[], year: number): ExpectedEvent[] {
+  const groups = new Map<string, SheetEvent[]>();
+  for (const event of events) {
+    const key = event.series_id || event.id;
+    groups.set(key, [...(groups.get(key) || []), event]);
+  }
+
+  const expected: ExpectedEvent[] = [];
+
+  for (const group of groups.values()) {
+    const latest = [...group].sort((a, b) => b.start_date.localeCompare(a.start_date))[0];
+    if (!PROJECTABLE_TYPES.has(latest.timing.temporal_type)) continue;
+
+    const series = latest.series_id ? getSeries(events, latest.series_id) : undefined;
+    const history: PastDates[] = series
+      ? series.editions.map(editionDates)
+      : group
+          .filter((e) => e.start_date)
+          .map((e) => ({ start_date: e.start_date, end_date: e.end_date }));
+
+    const latestYear = Math.max(0, ...history.map((h) => parseInt(h.start_date.slice(0, 4), 10)));
+    if (year <= latestYear) continue;
+
+    const projection = projectDates(latest.timing, history, year);
+    if (!projection) continue;
+
+    expected.push({
+      ...latest,
+      start_date: projection.start_date,
+      end_date: projection.end_date,
+      edition_year: year,
+      projection,
+    });
+  }
+
+  return expected.sort((a, b) => a.start_date.localeCompare(b.start_date));
+}
+
+/** Expected events whose likely window overlaps a month. */
+export function getExpectedEventsByMonth(
+  events: SheetEvent[],
+  year: number,
+  month: number
+): ExpectedEvent[] {
+  const monthStr = `${year}-${String(month).padStart(2, "0")}`;
+  const first = `${monthStr}-01`;
+  const last = `${monthStr}-${daysInMonth(year, month)}`;
+
+  return [year - 1, year]
+    .flatMap((y) => getExpectedEvents(events, y))
+    .filter((e) => e.projection.window.start <= last && e.projection.window.end >= first);
+}
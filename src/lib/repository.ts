@@ -0,0 +1,864 @@
+/**
+ * Event Repository
+ *
+ * The single source of event data for the Vercel API routes (/api/*) and
+ * the Astro pages. Raw records come from a pluggable EventSource (hard-coded
+ * data by default, Google Sheets or Supabase when configured) and are mapped
+ * through one mapper into one event model, so an event has the same slug and
+ * fields everywhere.
+ */
+
+import { festivals as _rawFestivals } from "./data/festivals";
+import { slugHistory as _slugHistory } from "./data/slug-history";
+import { festivalSeries as _rawSeries } from "./data/series";
+import {
+  DatePrecision,
+  MUSIC_TRADITIONS,
+  REGIONS,
+  TemporalType,
+  type CulturalWeightValue,
+  type EventCoordinates,
+  type EventStatus,
+  type EventType,
+  type EventTiming,
+  type MusicTradition,
+  type Season,
+} from "./taxonomy";
+import {
+  applyLunarOccurrence,
+  lunarOccurrencesInYear,
+  resolveUpcomingLunarTiming,
+} from "./hijri";
+import { eventCoordinates } from "./geolocation";
+import { getPlace, placeNames, resolvePlace } from "./gazetteer";
+import { eventPhase, happeningRange, todayInMorocco, type EventPhase, type Happening } from "./dates";
+import {
+  isListedStatus,
+  resolveLifecycle,
+  type StatusHistoryRow,
+  type StatusTransition,
+} from "./lifecycle";
+import { classifyEvent } from "./classification";
+import { tagTraditions, type TraditionTag } from "./tradition-tagger";
+import { assessWeight, type WeightAudit } from "./cultural-weight";
+import {
+  DEFAULT_CURRENCY,
+  isCurrency,
+  parsePriceTiers,
+  type Currency,
+  type PriceTier,
+  type PriceTierRow,
+} from "./pricing";
+import { accessibilityProfile, type AccessibilityProfile } from "./accessibility";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * A raw festival record, as stored in `data/festivals.ts` and as returned by
+ * every EventSource after column normalization.
+ */
+export interface FestivalRow {
+  id: string;
+  slug: string;
+  series_id?: string | null;
+  title_en: string;
+  title_fr?: string | null;
+  title_es?: string | null;
+  title_ar?: string | null;
+  description_en?: string | null;
+  description_fr?: string | null;
+  description_es?: string | null;
+  description_ar?: string | null;
+  category: string;
+  region: string;
+  city: string;
+  venue?: string | null;
+  // Empty for lunar records that have only an Islamic date
+  start_date: string;
+  end_date?: string | null;
+  // A TemporalType value, fixed_annual when absent. "lunar" records recur on
+  // islamic_month/islamic_day (see hijri.ts); agricultural and approx_annual
+  // ones are projected from season and recurrence_notes (see projection.ts)
+  temporal_type?: string | null;
+  islamic_month?: number | null;
+  islamic_day?: number | null;
+  duration_days?: number | null;
+  season?: string | null;
+  recurrence_notes?: string | null;
+  // In price_currency (MAD when absent); see pricing.ts
+  price_min?: number | null;
+  price_max?: number | null;
+  price_is_free?: boolean | null;
+  price_currency?: string | null;
+  price_tiers?: PriceTierRow[] | null;
+  image?: string | null;
+  tags?: string | null;
+  // Comma-separated performer names
+  artists?: string | null;
+  // Editor override of the tagged traditions: "gnawa" adds, "-world" removes
+  traditions?: string | null;
+  lat?: number | null;
+  lng?: number | null;
+  organizer?: string | null;
+  website?: string | null;
+  email?: string | null;
+  phone?: string | null;
+  // Accessibility (accessibility.ts); null or absent: not known
+  wheelchair_access?: boolean | null;
+  sign_language?: boolean | null;
+  audio_description?: boolean | null;
+  step_free_access?: boolean | null;
+  accessible_toilets?: boolean | null;
+  quiet_zone?: boolean | null;
+  sensory_friendly?: boolean | null;
+  // A Seating value: none, limited, accessible
+  seating?: string | null;
+  // A VenueSurface value: indoor, paved, sand, cobbles, ...
+  venue_surface?: string | null;
+  accessibility_notes?: string | null;
+  accessibility_verified_at?: string | null;
+  // An EventStatus value; see lifecycle.ts for how it may change
+  status: string;
+  // Past status changes, oldest first, ending with `status`
+  status_history?: StatusHistoryRow[] | null;
+  // Editor override of the proposed weight (1-5), with the reason for it
+  cultural_weight?: number | null;
+  weight_rationale?: string | null;
+}
+
+export interface SheetEvent {
+  id: string;
+  name: string;
+  slug: string;
+  // Source category, as recorded
+  category: string;
+  // Derived from the category, title, tags and timing (classification.ts)
+  event_type: EventType;
+  start_date: string;
+  end_date: string | null;
+  // Recurrence rule; start_date/end_date hold its next projected occurrence
+  // when the record has no Gregorian dates of its own
+  timing: EventTiming;
+  city: string;
+  city_slug: string;
+  region: string;
+  region_slug: string;
+  venue: string | null;
+  genres: string[];
+  // MUSIC_TRADITIONS ids with a confidence (tradition-tagger.ts)
+  traditions: TraditionTag[];
+  artists: string[];
+  organizer: string | null;
+  official_website: string | null;
+  ticket_url: string | null;
+  status: EventStatus;
+  // Timestamped changes, including the automatic one to historical
+  status_history: StatusTransition[];
+  // Recurring festival this record is one edition of
+  series_id: string | null;
+  edition_year: number | null;
+  is_verified: boolean;
+  is_pinned: boolean;
+  // 0-10 within the cultural weight's band; the significance sort
+  cultural_significance: number;
+  // 1-5, proposed by cultural-weight.ts or set by an editor
+  cultural_weight: CulturalWeightValue;
+  weight_rationale: string;
+  weight_audit: WeightAudit;
+  description: string | null;
+  image_url: string | null;
+  // Multi-language
+  title_en: string;
+  title_fr: string;
+  title_es: string;
+  title_ar: string;
+  description_fr: string | null;
+  description_es: string | null;
+  description_ar: string | null;
+  // Pricing
+  price_min: number;
+  price_max: number;
+  price_isFree: boolean;
+  // Currency of price_min, price_max and the tiers
+  price_currency: Currency;
+  price_tiers: PriceTier[];
+  // Location
+  lat: number;
+  lng: number;
+  // lat/lng with their precision (city centre or exact site); null when missing
+  coordinates: EventCoordinates | null;
+  // Contact
+  email: string | null;
+  phone: string | null;
+  // Accessibility: the original flags (false when not known) and the full
+  // profile, where each feature can also be unknown
+  wheelchairAccess: boolean;
+  signLanguage: boolean;
+  audioDescription: boolean;
+  accessibility: AccessibilityProfile;
+}
+
+/**
+ * A retired slug. Requests for it redirect to the current slug of the event
+ * with id `event_id`.
+ */
+export interface SlugHistoryEntry {
+  slug: string;
+  event_id: string;
+  retired_at: string;
+}
+
+export interface SlugResolution {
+  event: SheetEvent;
+  // False when the requested slug is an id or a retired slug
+  canonical: boolean;
+}
+
+/**
+ * A backend that supplies raw festival records. Sources only fetch and
+ * normalize column names; mapping to SheetEvent happens in this module.
+ */
+export interface EventSource {
+  name: string;
+  fetchRows(): Promise<FestivalRow[]>;
+}
+
+// Languages event titles and descriptions are written in
+export type Lang = "en" | "fr" | "es" | "ar";
+
+export const LANGS: Lang[] = ["en", "fr", "es", "ar"];
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+export function slugify(text: string): string {
+  return text
+    .toLowerCase()
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "");
+}
+
+const TEMPORAL_TYPES = new Set<string>(Object.values(TemporalType));
+const SEASONS = new Set<string>(["spring", "summer", "autumn", "winter"]);
+
+function rowTiming(row: FestivalRow): EventTiming {
+  const temporalType = TEMPORAL_TYPES.has(row.temporal_type || "")
+    ? (row.temporal_type as TemporalType)
+    : TemporalType.FIXED_ANNUAL;
+  const timing: EventTiming = {
+    temporal_type: temporalType,
+    gregorian_start: row.start_date || undefined,
+    gregorian_end: row.end_date || undefined,
+    date_precision: row.start_date ? DatePrecision.EXACT : DatePrecision.UNKNOWN,
+  };
+  if (row.season && SEASONS.has(row.season)) {
+    timing.season = row.season as Season;
+  }
+  if (row.recurrence_notes) {
+    timing.recurrence_notes = row.recurrence_notes;
+  }
+  if (temporalType !== TemporalType.LUNAR || !(Number(row.islamic_month) > 0)) {
+    return timing;
+  }
+
+  return resolveUpcomingLunarTiming(
+    {
+      ...timing,
+      islamic_month: Number(row.islamic_month),
+      islamic_day: Number(row.islamic_day) || undefined,
+      duration_days: Number(row.duration_days) || undefined,
+    },
+    todayInMorocco()
+  );
+}
+
+function regionName(regionSlug: string): string {
+  const region = REGIONS.find((r) => r.slug === regionSlug);
+  return region ? region.name : regionSlug;
+}
+
+// ============================================================================
+// MAPPER
+// ============================================================================
+
+function splitList(value: string | null | undefined): string[] {
+  return value
+    ? value
+        .split(",")
+        .map((t) => t.trim())
+        .filter(Boolean)
+    : [];
+}
+
+export function rowToEvent(row: FestivalRow): SheetEvent {
+  const title = row.title_en || row.id;
+  // Any spelling of a known place ("Fez", "Fès") maps to its canonical entry
+  const place = resolvePlace(row.city);
+  const city = place ? place.name_en : row.city || "";
+  const regionSlug = slugify(row.region || "");
+  const timing = rowTiming(row);
+  const startDate = timing.gregorian_start || "";
+  const genres = splitList(row.tags);
+  const artists = splitList(row.artists);
+  const series = row.series_id ? _rawSeries.find((s) => s.id === row.series_id) : undefined;
+  const editionYear = parseInt(startDate.slice(0, 4), 10) || null;
+  const eventType = classifyEvent({
+    category: row.category || "music",
+    title,
+    tags: genres,
+    temporal_type: row.temporal_type,
+  });
+  const traditions = tagTraditions({
+    tags: genres,
+    titles: [title, row.title_fr, row.title_es, row.title_ar].filter((t): t is string => !!t),
+    descriptions: [row.description_en, row.description_fr, row.description_es, row.description_ar],
+    artists,
+    override: row.traditions,
+  });
+  const weight = assessWeight({
+    event_type: eventType,
+    traditions,
+    edition_year: editionYear,
+    first_edition: series?.first_edition,
+    unesco_year: series?.unesco_year,
+    override_weight: row.cultural_weight,
+    override_rationale: row.weight_rationale,
+  });
+  const lifecycle = resolveLifecycle(
+    row.status,
+    row.status_history,
+    timing.gregorian_end || timing.gregorian_start || null
+  );
+
+  return {
+    id: row.id,
+    name: title,
+    slug: row.slug || row.id,
+    category: row.category || "music",
+    event_type: eventType,
+    start_date: startDate,
+    end_date: timing.gregorian_end || null,
+    timing,
+    city,
+    city_slug: place ? place.slug : slugify(city),
+    region: regionName(regionSlug),
+    region_slug: regionSlug,
+    venue: row.venue || null,
+    genres,
+    traditions,
+    artists,
+    organizer: row.organizer || null,
+    official_website: row.website || null,
+    ticket_url: null,
+    status: lifecycle.status,
+    status_history: lifecycle.status_history,
+    series_id: row.series_id || null,
+    edition_year: editionYear,
+    is_verified: true,
+    is_pinned: false,
+    ...weight,
+    description: row.description_en || null,
+    image_url: row.image || null,
+    title_en: title,
+    title_fr: row.title_fr || "",
+    title_es: row.title_es || "",
+    title_ar: row.title_ar || "",
+    description_fr: row.description_fr || null,
+    description_es: row.description_es || null,
+    description_ar: row.description_ar || null,
+    price_min: Number(row.price_min) || 0,
+    price_max: Number(row.price_max) || 0,
+    price_isFree: row.price_is_free || false,
+    price_currency: isCurrency(row.price_currency) ? row.price_currency : DEFAULT_CURRENCY,
+    price_tiers: parsePriceTiers(row.price_tiers),
+    lat: Number(row.lat) || 0,
+    lng: Number(row.lng) || 0,
+    coordinates: eventCoordinates(Number(row.lat) || 0, Number(row.lng) || 0, regionSlug),
+    email: row.email || null,
+    phone: row.phone || null,
+    wheelchairAccess: row.wheelchair_access || false,
+    signLanguage: row.sign_language || false,
+    audioDescription: row.audio_description || false,
+    accessibility: accessibilityProfile(row),
+  };
+}
+
+// ============================================================================
+// SOURCES
+// ============================================================================
+
+export const hardCodedEventSource: EventSource = {
+  name: "hard-coded",
+  async fetchRows() {
+    return _rawFestivals;
+  },
+};
+
+let _source: EventSource = hardCodedEventSource;
+let _eventsCache: SheetEvent[] | null = null;
+
+/**
+ * Switch the backend events are read from. The Google Sheets and Supabase
+ * sources live next to their clients (`sheetsEventSource` in `sheets.ts`,
+ * `supabaseEventSource` in `supabase.ts`).
+ */
+export function setEventSource(source: EventSource): void {
+  _source = source;
+  _eventsCache = null;
+}
+
+export function getEventSource(): EventSource {
+  return _source;
+}
+
+// ============================================================================
+// MAIN FETCH
+// ============================================================================
+
+/**
+ * Listed events (lifecycle.ts isListedStatus). Tentative, dormant and
+ * archived ones are left out unless their status is among `statuses`, which
+ * handlers pass when a `status=` filter asks for them explicitly.
+ */
+export async function fetchEvents({ statuses = [] }: { statuses?: readonly string[] } = {}): Promise<
+  SheetEvent[]
+> {
+  if (_eventsCache === null) {
+    const rows = await _source.fetchRows();
+    _eventsCache = rows.map(rowToEvent);
+  }
+  // A new array, as callers sort and filter in place
+  return _eventsCache.filter((e) => isListedStatus(e.status) || statuses.includes(e.status));
+}
+
+export async function fetchCities(): Promise<
+  { name: string; slug: string; region: string; count: number }[]
+> {
+  return getUniqueCities(await fetchEvents());
+}
+
+// ============================================================================
+// QUERY HELPERS
+// ============================================================================
+
+/**
+ * Every occurrence of an event that starts in a Gregorian year. Lunar events
+ * without recorded dates that year are projected from their Islamic date (at
+ * most twice a year, with approximate dates); other events are returned as
+ * they are.
+ */
+export function projectEventToYear(event: SheetEvent, year: number): SheetEvent[] {
+  const { timing } = event;
+  const recorded =
+    timing.date_uncertainty_days === undefined &&
+    event.start_date.startsWith(`${year}-`);
+  if (timing.temporal_type !== TemporalType.LUNAR || recorded) return [event];
+
+  return lunarOccurrencesInYear(timing, year).map((occurrence) => ({
+    ...event,
+    start_date: occurrence.gregorian_start,
+    end_date: occurrence.gregorian_end,
+    edition_year: year,
+    timing: applyLunarOccurrence(timing, occurrence),
+  }));
+}
+
+function projectEventToNextOccurrence(event: SheetEvent, today: string): SheetEvent {
+  if (event.timing.temporal_type !== TemporalType.LUNAR) return event;
+  const timing = resolveUpcomingLunarTiming(event.timing, today);
+  if (timing === event.timing || !timing.gregorian_start) return event;
+
+  return {
+    ...event,
+    start_date: timing.gregorian_start,
+    end_date: timing.gregorian_end || null,
+    edition_year: parseInt(timing.gregorian_start.slice(0, 4), 10),
+    timing,
+  };
+}
+
+/**
+ * Events that have not ended yet in Morocco: upcoming ones and those already
+ * running (ongoing), by start date.
+ */
+export function getUpcomingEvents(events: SheetEvent[]): SheetEvent[] {
+  const today = todayInMorocco();
+  return events
+    .map((e) => projectEventToNextOccurrence(e, today))
+    .filter((e) => eventPhase(e, today) !== "past")
+    .sort((a, b) => a.start_date.localeCompare(b.start_date));
+}
+
+/** Events on now, today or this weekend in Morocco (see dates.ts). */
+export function getHappeningEvents(
+  events: SheetEvent[],
+  happening: Happening,
+  now: Date = new Date()
+): SheetEvent[] {
+  const { from, to } = happeningRange(happening, todayInMorocco(now));
+  return getEventsInRange(events, from, to);
+}
+
+/** An event with its phase (upcoming, ongoing or past) as of today in Morocco. */
+export function withPhase<T extends SheetEvent>(
+  event: T,
+  today: string = todayInMorocco()
+): T & { phase: EventPhase } {
+  return { ...event, phase: eventPhase(event, today) };
+}
+
+export function getEventsByCity(
+  events: SheetEvent[],
+  citySlug: string
+): SheetEvent[] {
+  return events.filter((e) => e.city_slug === citySlug);
+}
+
+export function getEventsByGenre(
+  events: SheetEvent[],
+  genre: string
+): SheetEvent[] {
+  const genreLower = genre.toLowerCase();
+  return events.filter((e) =>
+    e.genres.some(
+      (g) => g.toLowerCase() === genreLower || slugify(g) === genreLower
+    )
+  );
+}
+
+/** Events tagged with a tradition, at or above a confidence. */
+export function getEventsByTradition(
+  events: SheetEvent[],
+  traditionId: string,
+  minConfidence = 0
+): SheetEvent[] {
+  return events.filter((e) =>
+    e.traditions.some((t) => t.id === traditionId && t.confidence >= minConfidence)
+  );
+}
+
+/** Events on at any time in a month, including ones that started before it. */
+export function getEventsByMonth(
+  events: SheetEvent[],
+  year: number,
+  month: number
+): SheetEvent[] {
+  const monthStr = `${year}-${String(month).padStart(2, "0")}`;
+  const lastDay = new Date(Date.UTC(year, month, 0)).getUTCDate();
+  return getEventsInRange(events, `${monthStr}-01`, `${monthStr}-${lastDay}`);
+}
+
+/**
+ * Every occurrence of an event overlapping [from, to] (ISO dates, inclusive),
+ * lunar events projected, ordered by start date.
+ */
+export function getEventsInRange(
+  events: SheetEvent[],
+  from: string,
+  to: string
+): SheetEvent[] {
+  // A year early: an occurrence starting in late December can run into January
+  const firstYear = parseInt(from.slice(0, 4), 10) - 1;
+  const lastYear = parseInt(to.slice(0, 4), 10);
+  const seen = new Set<string>();
+  const found: SheetEvent[] = [];
+
+  for (let year = firstYear; year <= lastYear; year++) {
+    for (const event of events.flatMap((e) => projectEventToYear(e, year))) {
+      if (!event.start_date) continue;
+      const end = event.end_date || event.start_date;
+      const key = `${event.id}@${event.start_date}`;
+      if (event.start_date <= to && end >= from && !seen.has(key)) {
+        seen.add(key);
+        found.push(event);
+      }
+    }
+  }
+
+  return found.sort((a, b) => a.start_date.localeCompare(b.start_date));
+}
+
+export function getEventBySlug(
+  events: SheetEvent[],
+  slug: string
+): SheetEvent | undefined {
+  return events.find((e) => e.slug === slug || e.id === slug);
+}
+
+/**
+ * Resolve a requested slug to its event, following ids and retired slugs.
+ * Callers redirect (301) to `event.slug` when the match is not canonical.
+ */
+export function resolveEventSlug(
+  events: SheetEvent[],
+  slug: string,
+  history: SlugHistoryEntry[] = _slugHistory
+): SlugResolution | undefined {
+  const current = events.find((e) => e.slug === slug);
+  if (current) return { event: current, canonical: true };
+
+  const byId = events.find((e) => e.id === slug);
+  if (byId) return { event: byId, canonical: false };
+
+  const retired = history.find((h) => h.slug === slug);
+  if (retired) {
+    const event = events.find((e) => e.id === retired.event_id);
+    if (event) return { event, canonical: false };
+  }
+
+  return undefined;
+}
+
+/**
+ * Retired slugs that still lead to a live event, paired with that event.
+ * Entries whose slug is live again, or whose event is gone, are skipped.
+ */
+export function getSlugRedirects(
+  events: SheetEvent[],
+  history: SlugHistoryEntry[] = _slugHistory
+): { from: string; event: SheetEvent }[] {
+  const live = new Set(events.map((e) => e.slug));
+  const redirects: { from: string; event: SheetEvent }[] = [];
+
+  for (const entry of history) {
+    if (live.has(entry.slug)) continue;
+    const event = events.find((e) => e.id === entry.event_id);
+    if (event) redirects.push({ from: entry.slug, event });
+  }
+
+  return redirects;
+}
+
+/** A permanent redirect as Vercel reads it from vercel.json. */
+export interface RedirectRule {
+  source: string;
+  destination: string;
+  permanent: true;
+}
+
+/**
+ * vercel.json `redirects` for retired slugs: a real HTTP 301, with and
+ * without the trailing slash of the directory-format build. The static build
+ * cannot answer with a status code itself. Written by `npm run redirects`.
+ */
+export function slugRedirectRules(
+  events: SheetEvent[],
+  history: SlugHistoryEntry[] = _slugHistory
+): RedirectRule[] {
+  return getSlugRedirects(events, history).flatMap(({ from, event }) =>
+    [`/events/${from}`, `/events/${from}/`].map((source) => ({
+      source,
+      destination: `/events/${event.slug}`,
+      permanent: true as const,
+    }))
+  );
+}
+
+/**
+ * vercel.json `redirects` for city pages: every other spelling of a place
+ * with events ("m-hamid-el-ghizlane", "fez") answers with a 301 to its
+ * gazetteer slug, which city pages have used since the gazetteer came in.
+ */
+export function citySlugRedirectRules(events: SheetEvent[]): RedirectRule[] {
+  const rules = new Map<string, RedirectRule>();
+  for (const slug of new Set(events.map((e) => e.city_slug))) {
+    const place = getPlace(slug);
+    if (!place) continue;
+    for (const name of placeNames(place)) {
+      const from = slugify(name);
+      // Another place's own page is never redirected
+      if (!from || getPlace(from)) continue;
+      for (const source of [`/cities/${from}`, `/cities/${from}/`]) {
+        rules.set(source, { source, destination: `/cities/${slug}`, permanent: true });
+      }
+    }
+  }
+  return [...rules.values()];
+}
+
+/**
+ * Throws when two events share a slug, or a retired slug is claimed by an
+ * event other than the one it redirects to. Called at build time so a
+ * collision never reaches a deploy.
+ */
+export function assertUniqueSlugs(
+  events: SheetEvent[],
+  history: SlugHistoryEntry[] = _slugHistory
+): void {
+  const owners = new Map<string, string>();
+  const collisions: string[] = [];
+
+  for (const event of events) {
+    const owner = owners.get(event.slug);
+    if (owner) {
+      collisions.push(`"${event.slug}" is used by ${owner} and ${event.id}`);
+    } else {
+      owners.set(event.slug, event.id);
+    }
+  }
+
+  for (const entry of history) {
+    const owner = owners.get(entry.slug);
+    if (owner && owner !== entry.event_id) {
+      collisions.push(
+        `"${entry.slug}" is live for ${owner} but retired for ${entry.event_id}`
+      );
+    }
+  }
+
+  if (collisions.length > 0) {
+    throw new Error(`Event slug collision: ${collisions.join("; ")}`);
+  }
+}
+
+// ============================================================================
+// LOCALIZATION
+// ============================================================================
+
+/**
+ * The event with `name` and `description` in the given language, falling
+ * back to English where a translation is missing. The per-language fields
+ * are left as they are.
+ */
+export function localizeEvent<T extends SheetEvent>(event: T, lang: Lang): T {
+  if (lang === "en") return event;
+  return {
+    ...event,
+    name: event[`title_${lang}`] || event.name,
+    description: event[`description_${lang}`] || event.description,
+  };
+}
+
+// ============================================================================
+// AGGREGATION HELPERS
+// ============================================================================
+
+export interface EventCounts {
+  event_count: number;
+  // Not ended yet in Morocco (getUpcomingEvents)
+  upcoming_count: number;
+}
+
+/**
+ * How many events, and how many upcoming ones, have each key: a city slug, a
+ * genre, a tradition id. An event with a key twice counts once.
+ */
+export function countEventsBy(
+  events: SheetEvent[],
+  keys: (event: SheetEvent) => string[]
+): Map<string, EventCounts> {
+  const counts = new Map<string, EventCounts>();
+  const tally = (list: SheetEvent[], field: keyof EventCounts) => {
+    for (const event of list) {
+      for (const key of new Set(keys(event))) {
+        const existing = counts.get(key) || { event_count: 0, upcoming_count: 0 };
+        existing[field]++;
+        counts.set(key, existing);
+      }
+    }
+  };
+
+  tally(events, "event_count");
+  tally(getUpcomingEvents(events), "upcoming_count");
+  return counts;
+}
+
+export function getUniqueCities(
+  events: SheetEvent[]
+): { name: string; slug: string; region: string; count: number }[] {
+  const cityMap = new Map<
+    string,
+    { name: string; slug: string; region: string; count: number }
+  >();
+
+  for (const event of events) {
+    if (!event.city_slug) continue;
+    const existing = cityMap.get(event.city_slug);
+    if (existing) {
+      existing.count++;
+    } else {
+      cityMap.set(event.city_slug, {
+        name: event.city,
+        slug: event.city_slug,
+        region: event.region,
+        count: 1,
+      });
+    }
+  }
+
+  return Array.from(cityMap.values()).sort((a, b) => b.count - a.count);
+}
+
+export function getUniqueGenres(
+  events: SheetEvent[]
+): { name: string; slug: string; count: number }[] {
+  const genreMap = new Map<
+    string,
+    { name: string; slug: string; count: number }
+  >();
+
+  for (const event of events) {
+    for (const genre of event.genres) {
+      const gSlug = slugify(genre);
+      const existing = genreMap.get(gSlug);
+      if (existing) {
+        existing.count++;
+      } else {
+        genreMap.set(gSlug, { name: genre, slug: gSlug, count: 1 });
+      }
+    }
+  }
+
+  return Array.from(genreMap.values()).sort((a, b) => b.count - a.count);
+}
+
+/** Traditions the events are tagged with, each with its event count. */
+export function getUniqueTraditions(
+  events: SheetEvent[]
+): (MusicTradition & { count: number })[] {
+  const traditionMap = new Map<string, MusicTradition & { count: number }>();
+
+  for (const event of events) {
+    for (const { id } of event.traditions) {
+      const tradition = MUSIC_TRADITIONS[id];
+      if (!tradition) continue;
+      const existing = traditionMap.get(id);
+      if (existing) {
+        existing.count++;
+      } else {
+        traditionMap.set(id, { ...tradition, count: 1 });
+      }
+    }
+  }
+
+  return Array.from(traditionMap.values()).sort((a, b) => b.count - a.count);
+}
+
+export function getUniqueRegions(
+  events: SheetEvent[]
+): { name: string; slug: string; count: number }[] {
+  const regionMap = new Map<
+    string,
+    { name: string; slug: string; count: number }
+  >();
+
+  for (const event of events) {
+    const existing = regionMap.get(event.region_slug);
+    if (existing) {
+      existing.count++;
+    } else {
+      regionMap.set(event.region_slug, {
+        name: event.region,
+        slug: event.region_slug,
+        count: 1,
+      });
+    }
+  }
+
+  return Array.from(regionMap.values()).sort((a, b) => b.count - a.count);
+}
@@ -0,0 +1,376 @@
+/**
+ * In-process Search Index
+ *
+ * An inverted index over repository events for /api/search when Typesense
+ * is not deployed. Field-weighted BM25 (BM25F-style) ranking over tokens
+ * analyzed per language (see text-analysis.ts), with stemming, cross-script
+ * transliteration, prefix matching and typo tolerance for terms that are not
+ * in the vocabulary, and "quoted phrase" queries.
+ *
+ * Built once per process from the event data; rebuilt when events change.
+ */
+
+import type { Lang, SheetEvent } from "./repository";
+import { analyze, consonantSkeleton, stem, tokenize } from "./text-analysis";
+import { getPlace, placeNames } from "./gazetteer";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type SearchField =
+  | "name"
+  | "title_fr"
+  | "title_es"
+  | "title_ar"
+  | "artists"
+  | "genres"
+  | "city"
+  | "venue"
+  | "region"
+  | "organizer"
+  | "description"
+  | "description_fr"
+  | "description_es"
+  | "description_ar";
+
+export interface SearchHit {
+  event: SheetEvent;
+  score: number;
+}
+
+interface IndexedDoc {
+  event: SheetEvent;
+  // Tokens of each field, in order, for phrase matching
+  tokens: Partial<Record<SearchField, string[]>>;
+}
+
+// term → doc index → field → term frequency
+type Postings = Map<string, Map<number, Map<SearchField, number>>>;
+
+export interface SearchIndex {
+  docs: IndexedDoc[];
+  postings: Postings;
+  // Sorted, for prefix lookups
+  vocabulary: string[];
+  // Consonant skeleton → vocabulary terms, for transliterated queries
+  skeletons: Map<string, string[]>;
+  avgFieldLength: Record<SearchField, number>;
+}
+
+// Titles count most, descriptions least
+export const FIELD_WEIGHTS: Record<SearchField, number> = {
+  name: 3,
+  title_fr: 2.5,
+  title_es: 2.5,
+  title_ar: 2.5,
+  artists: 2,
+  genres: 1.5,
+  city: 1.5,
+  venue: 1.2,
+  region: 1,
+  organizer: 1,
+  description: 0.6,
+  description_fr: 0.6,
+  description_es: 0.6,
+  description_ar: 0.6,
+};
+
+const SEARCH_FIELDS = Object.keys(FIELD_WEIGHTS) as SearchField[];
+
+// Fields analyzed with a language's stemmer; the rest are names and English
+const FIELD_LANGS: Partial<Record<SearchField, Lang>> = {
+  title_fr: "fr",
+  title_es: "es",
+  title_ar: "ar",
+  description_fr: "fr",
+  description_es: "es",
+  description_ar: "ar",
+};
+
+// BM25 parameters
+const K1 = 1.2;
+const B = 0.75;
+
+// How much an expanded term counts relative to an exact one
+const STEM_WEIGHT = 0.9;
+const SKELETON_WEIGHT = 0.7;
+const PREFIX_WEIGHT = 0.6;
+const TYPO_WEIGHT = 0.4;
+const MAX_EXPANSIONS = 20;
+
+// Ignored in queries (outside phrases) so they do not make AND-matching fail
+const STOPWORDS = new Set([
+  "a", "an", "and", "in", "of", "the", "to",
+  "au", "aux", "de", "des", "du", "en", "et", "la", "le", "les",
+  "del", "el", "los", "las", "y",
+  "في", "من", "على", "مع",
+]);
+
+// Shorter skeletons ("fs") match too many unrelated words
+const MIN_SKELETON_LENGTH = 3;
+
+// ============================================================================
+// ANALYSIS
+// ============================================================================
+
+function fieldText(event: SheetEvent, field: SearchField): string {
+  switch (field) {
+    case "artists":
+      return event.artists.join(" ");
+    case "genres":
+      return event.genres.join(" ");
+    case "city": {
+      // Every name of the place, so "Fez" and "فاس" find events in Fes
+      const place = getPlace(event.city_slug);
+      return place ? placeNames(place).join(" ") : event.city;
+    }
+    default:
+      return event[field] || "";
+  }
+}
+
+// ============================================================================
+// BUILDING
+// ============================================================================
+
+export function buildSearchIndex(events: SheetEvent[]): SearchIndex {
+  const postings: Postings = new Map();
+  const totals = Object.fromEntries(SEARCH_FIELDS.map((f) => [f, 0])) as Record<
+    SearchField,
+    number
+  >;
+
+  const docs = events.map((event, docIndex) => {
+    const tokens: IndexedDoc["tokens"] = {};
+
+    for (const field of SEARCH_FIELDS) {
+      const fieldTokens = analyze(fieldText(event, field), FIELD_LANGS[field] || "en");
+      if (fieldTokens.length === 0) continue;
+      tokens[field] = fieldTokens;
+      totals[field] += fieldTokens.length;
+
+      for (const token of fieldTokens) {
+        let byDoc = postings.get(token);
+        if (!byDoc) postings.set(token, (byDoc = new Map()));
+        let byField = byDoc.get(docIndex);
+        if (!byField) byDoc.set(docIndex, (byField = new Map()));
+        byField.set(field, (byField.get(field) || 0) + 1);
+      }
+    }
+
+    return { event, tokens };
+  });
+
+  const avgFieldLength = Object.fromEntries(
+    SEARCH_FIELDS.map((f) => [f, docs.length ? totals[f] / docs.length : 0])
+  ) as Record<SearchField, number>;
+
+  const vocabulary = [...postings.keys()].sort();
+  const skeletons = new Map<string, string[]>();
+  for (const term of vocabulary) {
+    const skeleton = consonantSkeleton(term);
+    if (skeleton.length < MIN_SKELETON_LENGTH) continue;
+    skeletons.set(skeleton, [...(skeletons.get(skeleton) || []), term]);
+  }
+
+  return { docs, postings, vocabulary, skeletons, avgFieldLength };
+}
+
+// ============================================================================
+// TERM EXPANSION
+// ============================================================================
+
+function prefixMatches(vocabulary: string[], prefix: string): string[] {
+  // Binary search for the first term >= prefix
+  let lo = 0;
+  let hi = vocabulary.length;
+  while (lo < hi) {
+    const mid = (lo + hi) >> 1;
+    if (vocabulary[mid] < prefix) lo = mid + 1;
+    else hi = mid;
+  }
+
+  const matches: string[] = [];
+  for (let i = lo; i < vocabulary.length && matches.length < MAX_EXPANSIONS; i++) {
+    if (!vocabulary[i].startsWith(prefix)) break;
+    matches.push(vocabulary[i]);
+  }
+  return matches;
+}
+
+/** Levenshtein distance, giving up once it exceeds `max`. */
+function editDistance(a: string, b: string, max: number): number {
+  if (Math.abs(a.length - b.length) > max) return max + 1;
+
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    let rowMin = i;
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+      rowMin = Math.min(rowMin, current[j]);
+    }
+    if (rowMin > max) return max + 1;
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+function typoMatches(vocabulary: string[], term: string): string[] {
+  // Short words have too many neighbours to guess from
+  if (term.length < 4) return [];
+  const max = term.length >= 8 ? 2 : 1;
+  return vocabulary
+    .filter((candidate) => editDistance(term, candidate, max) <= max)
+    .slice(0, MAX_EXPANSIONS);
+}
+
+/**
+ * Vocabulary terms a query term stands for, with their weight. A term that
+ * is in the vocabulary as written or once stemmed (the query language is not
+ * known, so every stemmer is tried) only matches itself, so "fes" finds Fès
+ * and not every festival. Any other term is matched by transliteration
+ * ("gnawa" → "كناوه", "gnaoua"), as a prefix and as a possible typo.
+ */
+export function expandTerm(index: SearchIndex, term: string): Map<string, number> {
+  const expansions = new Map<string, number>();
+
+  if (index.postings.has(term)) {
+    expansions.set(term, 1);
+  }
+  for (const lang of ["fr", "es", "ar"] as Lang[]) {
+    const stemmed = stem(term, lang);
+    if (stemmed !== term && index.postings.has(stemmed) && !expansions.has(stemmed)) {
+      expansions.set(stemmed, STEM_WEIGHT);
+    }
+  }
+  if (expansions.size > 0) return expansions;
+
+  const skeleton = consonantSkeleton(term);
+  if (skeleton.length >= MIN_SKELETON_LENGTH) {
+    for (const match of index.skeletons.get(skeleton) || []) {
+      expansions.set(match, SKELETON_WEIGHT);
+    }
+  }
+
+  if (term.length >= 2) {
+    for (const match of prefixMatches(index.vocabulary, term)) {
+      if (!expansions.has(match)) expansions.set(match, PREFIX_WEIGHT);
+    }
+  }
+  for (const match of typoMatches(index.vocabulary, term)) {
+    if (!expansions.has(match)) expansions.set(match, TYPO_WEIGHT);
+  }
+
+  return expansions;
+}
+
+// ============================================================================
+// QUERYING
+// ============================================================================
+
+export interface ParsedQuery {
+  terms: string[];
+  phrases: string[][];
+}
+
+/** Split a query into terms and "quoted phrases" (whose words are terms too). */
+export function parseQuery(query: string): ParsedQuery {
+  const phrases: string[][] = [];
+  const terms: string[] = [];
+
+  const rest = query.replace(/"([^"]*)"/g, (_, phrase: string) => {
+    const tokens = tokenize(phrase);
+    if (tokens.length > 1) phrases.push(tokens);
+    terms.push(...tokens);
+    return " ";
+  });
+  const words = tokenize(rest);
+  const content = words.filter((t) => !STOPWORDS.has(t));
+  // A query of stopwords alone ("the", "el") is matched as typed
+  terms.push(...(content.length > 0 || terms.length > 0 ? content : words));
+
+  return { terms: [...new Set(terms)], phrases };
+}
+
+function containsPhrase(doc: IndexedDoc, phrase: string[]): boolean {
+  for (const [field, tokens] of Object.entries(doc.tokens) as [SearchField, string[]][]) {
+    // Field tokens are stemmed, so stem the phrase the same way
+    const words = phrase.map((word) => stem(word, FIELD_LANGS[field] || "en"));
+    for (let i = 0; i + words.length <= tokens.length; i++) {
+      if (words.every((word, j) => tokens[i + j] === word)) return true;
+    }
+  }
+  return false;
+}
+
+function idf(index: SearchIndex, docFrequency: number): number {
+  const n = index.docs.length;
+  return Math.log(1 + (n - docFrequency + 0.5) / (docFrequency + 0.5));
+}
+
+/**
+ * Score one query term against every document. A document's score is the
+ * best of the term's expansions; BM25 saturation and length normalization
+ * apply per field before field weights.
+ */
+function scoreTerm(index: SearchIndex, term: string): Map<number, number> {
+  const scores = new Map<number, number>();
+
+  for (const [match, weight] of expandTerm(index, term)) {
+    const byDoc = index.postings.get(match);
+    if (!byDoc) continue;
+    const termIdf = idf(index, byDoc.size);
+
+    for (const [docIndex, byField] of byDoc) {
+      let score = 0;
+      for (const [field, tf] of byField) {
+        const length = index.docs[docIndex].tokens[field]?.length || 0;
+        const avg = index.avgFieldLength[field] || 1;
+        const norm = tf * (K1 + 1) / (tf + K1 * (1 - B + B * (length / avg)));
+        score += FIELD_WEIGHTS[field] * termIdf * norm;
+      }
+      score *= weight;
+      if (score > (scores.get(docIndex) || 0)) scores.set(docIndex, score);
+    }
+  }
+
+  return scores;
+}
+
+/**
+ * Events matching every term (and every phrase) of the query, best first.
+ * Pinned events and cultural significance break near-ties.
+ */
+export function searchIndex(index: SearchIndex, query: string): SearchHit[] {
+  const { terms, phrases } = parseQuery(query);
+  if (terms.length === 0) return [];
+
+  let totals: Map<number, number> | null = null;
+  for (const term of terms) {
+    const termScores = scoreTerm(index, term);
+    if (totals === null) {
+      totals = termScores;
+      continue;
+    }
+    const combined = new Map<number, number>();
+    for (const [docIndex, score] of totals) {
+      const termScore = termScores.get(docIndex);
+      if (termScore !== undefined) combined.set(docIndex, score + termScore);
+    }
+    totals = combined;
+  }
+
+  const hits: SearchHit[] = [];
+  for (const [docIndex, score] of totals || []) {
+    const doc = index.docs[docIndex];
+    if (!phrases.every((phrase) => containsPhrase(doc, phrase))) continue;
+
+    const boost = (doc.event.is_pinned ? 1.2 : 1) * (1 + doc.event.cultural_significance / 100);
+    hits.push({ event: doc.event, score: score * boost });
+  }
+
+  return hits.sort((a, b) => b.score - a.score);
+}
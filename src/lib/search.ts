@@ -0,0 +1,183 @@
+/**
+ * Event Search
+ *
+ * Text search and filters over repository events, shared by /api/search and
+ * the iCalendar feeds (/api/ics) so a search can be subscribed to with the
+ * same query string. Ranking comes from the in-process index in
+ * search-index.ts, a fallback that works without Typesense. Filters are the
+ * facets of facets.ts, so each takes several values.
+ */
+
+import type { FacetValue } from "../types";
+import {
+  applyFacetSelection,
+  countFacets,
+  EVENT_FACETS,
+  parseFacetSelection,
+  type FacetSelection,
+} from "./facets";
+import { applyGeoQuery, type GeoEvent, type GeoQuery } from "./geo-search";
+import { applyPriceQuery, type PriceQuery } from "./pricing";
+import { applyAccessibilityQuery, type AccessibilityQuery } from "./accessibility";
+import { getHappeningEvents, getUpcomingEvents, type SheetEvent } from "./repository";
+import type { Happening } from "./dates";
+import { buildSearchIndex, searchIndex, type SearchIndex } from "./search-index";
+import { isIsoDate } from "./validation";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface EventSearchQuery {
+  q?: string;
+  // city, region, genre, tradition, category, type, status, month, price,
+  // accessibility, seating, surface
+  facets: FacetSelection;
+  // Events on at any point in the window (YYYY-MM-DD, see checkDateWindow)
+  from?: string;
+  to?: string;
+  upcoming?: boolean;
+  // Validated separately (parseHappening, parseGeoQuery, parsePriceQuery,
+  // parseAccessibilityQuery), as they can be malformed
+  happening?: Happening;
+  geo?: GeoQuery;
+  price?: PriceQuery;
+  accessibility?: AccessibilityQuery;
+}
+
+export interface FacetedResults {
+  events: GeoEvent[];
+  facets: Record<string, FacetValue[]>;
+}
+
+// Raw query string values, as handed over by the API handlers
+export type QueryParams = Record<string, string | string[] | undefined>;
+
+// ============================================================================
+// QUERY PARSING
+// ============================================================================
+
+function param(value: string | string[] | undefined): string | undefined {
+  return typeof value === "string" && value !== "" ? value : undefined;
+}
+
+export function parseSearchQuery(params: QueryParams): EventSearchQuery {
+  return {
+    q: param(params.q),
+    facets: parseFacetSelection(params, EVENT_FACETS),
+    from: param(params.from),
+    to: param(params.to),
+    upcoming: params.upcoming === "true",
+  };
+}
+
+/** Why a query's `from`/`to` window is invalid, or null when it is not. */
+export function checkDateWindow(query: EventSearchQuery): string | null {
+  for (const [name, value] of [["from", query.from], ["to", query.to]]) {
+    if (value !== undefined && !isIsoDate(value)) {
+      return `Invalid ${name} "${value}". Use a date (YYYY-MM-DD)`;
+    }
+  }
+  if (query.from && query.to && query.to < query.from) {
+    return "to is before from";
+  }
+  return null;
+}
+
+// ============================================================================
+// MATCHING AND SCORING
+// ============================================================================
+
+let _index: { key: string; index: SearchIndex } | null = null;
+
+// The index is rebuilt only when the set of events changes
+function getIndex(events: SheetEvent[]): SearchIndex {
+  const key = events.map((e) => `${e.id}@${e.start_date}`).join("|");
+  if (_index?.key !== key) {
+    _index = { key, index: buildSearchIndex(events) };
+  }
+  return _index.index;
+}
+
+/** Events matching a text query, most relevant first. */
+export function searchEvents(events: SheetEvent[], query: string): SheetEvent[] {
+  if (!query.trim()) return events;
+  return searchIndex(getIndex(events), query).map((hit) => hit.event);
+}
+
+// ============================================================================
+// SEARCH
+// ============================================================================
+
+/** Text query, date and geo filters, ordered; facets are applied on top. */
+function matchQuery(events: SheetEvent[], query: EventSearchQuery): GeoEvent[] {
+  let results: GeoEvent[] = [...events];
+
+  // Text search, ranked by relevance
+  if (query.q) {
+    results = searchEvents(results, query.q);
+  }
+
+  // Overlap, so an event that started before `from` and is still on counts
+  if (query.from) {
+    const from = query.from;
+    results = results.filter((e) => (e.end_date || e.start_date) >= from);
+  }
+
+  if (query.to) {
+    const to = query.to;
+    results = results.filter((e) => e.start_date <= to);
+  }
+
+  if (query.upcoming) {
+    // getUpcomingEvents sorts by date; keep the relevance order instead
+    const rank = new Map(results.map((e, i) => [e.id, i]));
+    results = getUpcomingEvents(results);
+    if (query.q) {
+      results.sort((a, b) => (rank.get(a.id) ?? 0) - (rank.get(b.id) ?? 0));
+    }
+  }
+
+  if (query.happening) {
+    // On now, today or this weekend in Morocco; order kept as above
+    const on = new Set(getHappeningEvents(results, query.happening).map((e) => e.id));
+    results = results.filter((e) => on.has(e.id));
+  }
+
+  if (query.geo) {
+    results = applyGeoQuery(results, query.geo);
+  }
+
+  if (query.price) {
+    // Free or paid, and the cheapest ticket within budget
+    results = applyPriceQuery(results, query.price);
+  }
+
+  if (query.accessibility) {
+    // Accessibility checked recently enough to rely on
+    results = applyAccessibilityQuery(results, query.accessibility);
+  }
+
+  if (query.q) return results;
+
+  // Default sort: pinned first, then by date
+  return results.sort((a, b) => {
+    if (a.is_pinned && !b.is_pinned) return -1;
+    if (!a.is_pinned && b.is_pinned) return 1;
+    return a.start_date.localeCompare(b.start_date);
+  });
+}
+
+/** Filter and order events for a search query. */
+export function runSearch(events: SheetEvent[], query: EventSearchQuery): GeoEvent[] {
+  return applyFacetSelection(matchQuery(events, query), EVENT_FACETS, query.facets);
+}
+
+/** Search results together with the facet counts around them. */
+export function runFacetedSearch(events: SheetEvent[], query: EventSearchQuery): FacetedResults {
+  const matched = matchQuery(events, query);
+  return {
+    events: applyFacetSelection(matched, EVENT_FACETS, query.facets),
+    facets: countFacets(matched, EVENT_FACETS, query.facets),
+  };
+}
@@ -0,0 +1,209 @@
+/**
+ * Festival Series
+ *
+ * Links the yearly editions of a recurring festival. Editions that have a
+ * full record come from the repository (matched on `series_id`); older ones
+ * come from `past_editions` in data/series.ts.
+ */
+
+import { festivalSeries as _rawSeries } from "./data/series";
+import type { SheetEvent } from "./repository";
+import { todayInMorocco } from "./dates";
+import { addDays, resolveUpcomingLunarTiming } from "./hijri";
+import { projectDates } from "./projection";
+import { DatePrecision, TemporalType, type EventTiming } from "./taxonomy";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface PastEditionRow {
+  year: number;
+  start_date: string;
+  end_date: string | null;
+}
+
+export interface SeriesRow {
+  id: string;
+  name: string;
+  city: string;
+  // Year of the first edition, where known
+  first_edition?: number | null;
+  // Year UNESCO inscribed the event on its intangible heritage lists
+  unesco_year?: number | null;
+  past_editions: PastEditionRow[];
+}
+
+/**
+ * `expected` editions are projected from the known ones (see projection.ts,
+ * or hijri.ts for lunar festivals) and have no record yet.
+ */
+export type EditionState = "past" | "upcoming" | "expected";
+
+export interface SeriesEdition {
+  year: number;
+  start_date: string;
+  end_date: string | null;
+  event_id: string | null;
+  slug: string | null;
+  state: EditionState;
+}
+
+export interface FestivalSeries {
+  id: string;
+  name: string;
+  city: string;
+  // Known editions, oldest first
+  editions: SeriesEdition[];
+  past: SeriesEdition[];
+  upcoming: SeriesEdition[];
+  // The first upcoming edition, or a projection when none is announced
+  next_expected: SeriesEdition | null;
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+// Series with no full record left are projected from their history alone
+const HISTORY_ONLY: EventTiming = {
+  temporal_type: TemporalType.APPROXIMATE_ANNUAL,
+  date_precision: DatePrecision.APPROXIMATE,
+};
+
+/**
+ * The edition after the latest known one. Lunar festivals follow the Hijri
+ * calendar; the rest are projected from every known edition plus the
+ * record's recurrence notes and season.
+ */
+function projectNextEdition(
+  editions: SeriesEdition[],
+  timing: EventTiming = HISTORY_ONLY
+): SeriesEdition | null {
+  const latest = editions[editions.length - 1];
+  if (!latest) return null;
+  const expected = { event_id: null, slug: null, state: "expected" as const };
+
+  if (timing.temporal_type === TemporalType.LUNAR) {
+    // Half a Hijri year on: past the latest edition's own (tabular) dates,
+    // well before the next
+    const next = resolveUpcomingLunarTiming(timing, addDays(latest.start_date, 180));
+    if (!next.gregorian_start) return null;
+    return {
+      year: parseInt(next.gregorian_start.slice(0, 4), 10),
+      start_date: next.gregorian_start,
+      end_date: next.gregorian_end || null,
+      ...expected,
+    };
+  }
+
+  const history = editions.map((e) => ({ start_date: e.start_date, end_date: e.end_date }));
+  const projection = projectDates(timing, history, latest.year + 1);
+  if (!projection) return null;
+  return {
+    year: projection.year,
+    start_date: projection.start_date,
+    end_date: projection.end_date,
+    ...expected,
+  };
+}
+
+// ============================================================================
+// SERIES
+// ============================================================================
+
+export function getSeriesRows(): SeriesRow[] {
+  return _rawSeries;
+}
+
+export function buildSeries(
+  row: SeriesRow,
+  events: SheetEvent[],
+  today: string = todayInMorocco()
+): FestivalSeries {
+  const stateOf = (start: string, end: string | null): EditionState =>
+    (end || start) < today ? "past" : "upcoming";
+
+  const records = events.filter((e) => e.series_id === row.id && e.start_date);
+  const recorded: SeriesEdition[] = records.map((e) => ({
+    year: e.edition_year || parseInt(e.start_date.slice(0, 4), 10),
+    start_date: e.start_date,
+    end_date: e.end_date,
+    event_id: e.id,
+    slug: e.slug,
+    state: stateOf(e.start_date, e.end_date),
+  }));
+
+  const recordedYears = new Set(recorded.map((e) => e.year));
+  const archived: SeriesEdition[] = row.past_editions
+    .filter((p) => !recordedYears.has(p.year))
+    .map((p) => ({
+      year: p.year,
+      start_date: p.start_date,
+      end_date: p.end_date,
+      event_id: null,
+      slug: null,
+      state: stateOf(p.start_date, p.end_date),
+    }));
+
+  const editions = [...recorded, ...archived].sort((a, b) =>
+    a.start_date.localeCompare(b.start_date)
+  );
+  const past = editions.filter((e) => e.state === "past");
+  const upcoming = editions.filter((e) => e.state === "upcoming");
+  // The newest record knows the festival's timing best
+  const latestRecord = [...records].sort((a, b) => b.start_date.localeCompare(a.start_date))[0];
+
+  return {
+    id: row.id,
+    name: row.name,
+    city: row.city,
+    editions,
+    past,
+    upcoming,
+    next_expected: upcoming[0] || projectNextEdition(editions, latestRecord?.timing),
+  };
+}
+
+export function getAllSeries(
+  events: SheetEvent[],
+  today: string = todayInMorocco()
+): FestivalSeries[] {
+  return getSeriesRows().map((row) => buildSeries(row, events, today));
+}
+
+export function getSeries(
+  events: SheetEvent[],
+  seriesId: string,
+  today: string = todayInMorocco()
+): FestivalSeries | undefined {
+  const row = getSeriesRows().find((s) => s.id === seriesId);
+  return row ? buildSeries(row, events, today) : undefined;
+}
+
+export function getSeriesForEvent(
+  events: SheetEvent[],
+  event: SheetEvent,
+  today: string = todayInMorocco()
+): FestivalSeries | undefined {
+  return event.series_id ? getSeries(events, event.series_id, today) : undefined;
+}
+
+/**
+ * The editions before a given event (newest first) and the one expected after
+ * it: the next known edition, or a projection from them all.
+ */
+export function getEditionContext(
+  series: FestivalSeries,
+  event: SheetEvent
+): { previous: SeriesEdition[]; next: SeriesEdition | null } {
+  const previous = series.editions
+    .filter((e) => e.start_date < event.start_date)
+    .reverse();
+  const later = series.editions.find((e) => e.start_date > event.start_date);
+
+  return {
+    previous,
+    next: later || projectNextEdition(series.editions, event.timing),
+  };
+}
@@ -1,4 +1,7 @@
 import { google } from "googleapis";
+import type { EventSource, FestivalRow } from "./repository";
+import { parseStatus, type StatusHistoryRow } from "./lifecycle";
+import type { PriceTierRow } from "./pricing";
 
 // =============================================================================
 // BUILD-TIME CACHE - Uses globalThis to persist across Astro page builds
@@ -6,7 +9,6 @@ import { google } from "googleapis";
 declare global {
   var __festivalsCache: {
     siteSettings: any | null;
-    events: any[] | null;
     legalPages: any[] | null;
     sheetData: Map<string, any[]>;
   } | undefined;
@@ -16,7 +18,6 @@ declare global {
 if (!globalThis.__festivalsCache) {
   globalThis.__festivalsCache = {
     siteSettings: null,
-    events: null,
     legalPages: null,
     sheetData: new Map(),
   };
@@ -334,84 +335,64 @@ export async function getSiteSettings(): Promise<SiteSettings> {
 // EVENTS FROM GOOGLE SHEETS
 // =============================================================================
 
-export interface SheetEvent {
-  id: string;
-  slug: string;
-  title_en: string;
-  title_ar?: string;
-  description_en: string;
-  category: string;
-  region: string;
-  city: string;
-  venue?: string;
-  startDate: string;
-  endDate?: string;
-  price_min?: number;
-  price_max?: number;
-  price_isFree: boolean;
-  image?: string;
-  tags: string[];
-  lat?: number;
-  lng?: number;
-  organizer?: string;
-  website?: string;
-  email?: string;
-  phone?: string;
-  status: string;
-}
-
-export async function getSheetEvents(): Promise<SheetEvent[]> {
-  // Check cache first
-  if (cache.events !== null) {
-    console.log("[Festivals] Events (cached):", cache.events.length);
-    return cache.events;
+const sheetBool = (value: any): boolean => value === 'TRUE' || value === true;
+// Accessibility cells: TRUE, FALSE, or empty when not known
+const sheetFlag = (value: any): boolean | null =>
+  value === '' || value === undefined || value === null ? null : sheetBool(value);
+const sheetNumber = (value: any): number | null => {
+  const n = parseFloat(value);
+  return isNaN(n) ? null : n;
+};
+// status_history and price_tiers cells hold JSON lists:
+// [{"status":"announced","at":"2026-01-10T09:00:00Z"}], [{"tier":"day_pass","amount":200}]
+const sheetList = <T>(value: any): T[] | null => {
+  if (!value) return null;
+  try {
+    const list = JSON.parse(value);
+    return Array.isArray(list) ? list : null;
+  } catch {
+    return null;
   }
+};
 
-  try {
+// Event source for the repository: reads the Festivals tab and normalizes the
+// sheet's column names to FestivalRow. Mapping happens in repository.ts.
+export const sheetsEventSource: EventSource = {
+  name: 'google-sheets',
+  async fetchRows(): Promise<FestivalRow[]> {
     console.log("[Festivals] Fetching events from sheet:", SHEET_ID);
     const rows = await getSheetData("Festivals");
-    
-    if (rows.length === 0) {
-      console.log("[Festivals] No events found in sheet");
-      cache.events = [];
-      return [];
-    }
-    
-    const events: SheetEvent[] = rows
-      .filter((row: any) => row.status === 'published' && row.id)
+
+    return rows
+      // Rows with a lifecycle status; drafts and blank statuses stay unlisted
+      .filter((row: any) => parseStatus(row.status) && row.id)
       .map((row: any) => ({
-        id: row.id,
-        slug: row.id, // Use id as slug
-        title_en: row.title_en || row.id,
-        title_ar: row.title_ar || '',
-        description_en: row.description_en || '',
-        category: row.category || 'festival',
-        region: row.region || '',
-        city: row.city || '',
-        venue: row.venue || '',
-        startDate: row.startDate || '',
-        endDate: row.endDate || row.startDate || '',
-        price_min: parseFloat(row.price_min) || 0,
-        price_max: parseFloat(row.price_max) || 0,
-        price_isFree: row.price_isFree === 'TRUE' || row.price_isFree === true,
-        image: row.image || '',
-        tags: row.tags ? row.tags.split(',').map((t: string) => t.trim()) : [],
-        lat: parseFloat(row.lat) || 0,
-        lng: parseFloat(row.lng) || 0,
-        organizer: row.organizer || '',
-        website: row.website || '',
-        email: row.email || '',
-        phone: row.phone || '',
-        status: row.status || 'published',
+        ...row,
+        slug: row.slug || row.id,
+        start_date: row.start_date || row.startDate || '',
+        end_date: row.end_date || row.endDate || null,
+        islamic_month: sheetNumber(row.islamic_month),
+        islamic_day: sheetNumber(row.islamic_day),
+        duration_days: sheetNumber(row.duration_days),
+        cultural_weight: sheetNumber(row.cultural_weight),
+        season: row.season ? String(row.season).toLowerCase() : null,
+        price_min: sheetNumber(row.price_min),
+        price_max: sheetNumber(row.price_max),
+        price_is_free: sheetBool(row.price_is_free ?? row.price_isFree),
+        price_currency: row.price_currency ? String(row.price_currency).toUpperCase() : null,
+        price_tiers: sheetList<PriceTierRow>(row.price_tiers),
+        lat: sheetNumber(row.lat),
+        lng: sheetNumber(row.lng),
+        wheelchair_access: sheetFlag(row.wheelchair_access),
+        sign_language: sheetFlag(row.sign_language),
+        audio_description: sheetFlag(row.audio_description),
+        step_free_access: sheetFlag(row.step_free_access),
+        accessible_toilets: sheetFlag(row.accessible_toilets),
+        quiet_zone: sheetFlag(row.quiet_zone),
+        sensory_friendly: sheetFlag(row.sensory_friendly),
+        seating: row.seating ? String(row.seating).toLowerCase() : null,
+        venue_surface: row.venue_surface ? String(row.venue_surface).toLowerCase() : null,
+        status_history: sheetList<StatusHistoryRow>(row.status_history),
       }));
-    
-    console.log("[Festivals] Processed", events.length, "events");
-    
-    cache.events = events;
-    return events;
-  } catch (error) {
-    console.error("Error fetching events from sheet:", error);
-    cache.events = [];
-    return [];
-  }
-}
+  },
+};
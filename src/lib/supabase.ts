@@ -3,8 +3,9 @@ import { createClient, type SupabaseClient } from "@supabase/supabase-js";
 // =============================================================================
 // HARD-CODED DATA (no longer fetched from Supabase)
 // =============================================================================
-import { festivals as _rawFestivals } from "./data/festivals";
 import { siteSettingsData as _rawSettings } from "./data/settings";
+import { fetchEvents, type EventSource, type FestivalRow } from "./repository";
+import { EVENT_STATUSES } from "./lifecycle";
 
 // =============================================================================
 // NEXUS SUPABASE CLIENT — Shared across all brands (STILL LIVE)
@@ -234,85 +235,31 @@ export async function getSiteSettings(): Promise<SiteSettings> {
 }
 
 // =============================================================================
-// EVENTS — now hard-coded
+// EVENTS — served by the repository; this source reads the Supabase table
 // =============================================================================
 
-export interface SheetEvent {
-  id: string;
-  slug: string;
-  title_en: string;
-  title_fr?: string;
-  title_es?: string;
-  title_ar?: string;
-  description_en: string;
-  description_fr?: string;
-  description_es?: string;
-  description_ar?: string;
-  category: string;
-  region: string;
-  city: string;
-  venue?: string;
-  startDate: string;
-  endDate?: string;
-  price_min?: number;
-  price_max?: number;
-  price_isFree: boolean;
-  image?: string;
-  tags: string[];
-  lat?: number;
-  lng?: number;
-  organizer?: string;
-  website?: string;
-  email?: string;
-  phone?: string;
-  wheelchairAccess?: boolean;
-  signLanguage?: boolean;
-  audioDescription?: boolean;
-  status: string;
-}
+export const supabaseEventSource: EventSource = {
+  name: "supabase",
+  async fetchRows(): Promise<FestivalRow[]> {
+    const { data, error } = await getNexus()
+      .from("festivals")
+      .select("*")
+      // Lifecycle statuses, and "published" from before them
+      .in("status", [...EVENT_STATUSES, "published"]);
 
-export async function getSheetEvents(): Promise<SheetEvent[]> {
-  const events: SheetEvent[] = (_rawFestivals as any[]).map((row: any) => ({
-    id: row.id,
-    slug: row.id,
-    title_en: row.title_en || row.id,
-    title_fr: row.title_fr || "",
-    title_es: row.title_es || "",
-    title_ar: row.title_ar || "",
-    description_en: row.description_en || "",
-    description_fr: row.description_fr || "",
-    description_es: row.description_es || "",
-    description_ar: row.description_ar || "",
-    category: row.category || "festival",
-    region: row.region || "",
-    city: row.city || "",
-    venue: row.venue || "",
-    startDate: row.start_date || "",
-    endDate: row.end_date || row.start_date || "",
-    price_min: parseFloat(row.price_min) || 0,
-    price_max: parseFloat(row.price_max) || 0,
-    price_isFree: row.price_is_free || false,
-    image: row.image || "",
-    tags: row.tags ? row.tags.split(",").map((t: string) => t.trim()) : [],
-    lat: parseFloat(row.lat) || 0,
-    lng: parseFloat(row.lng) || 0,
-    organizer: row.organizer || "",
-    website: row.website || "",
-    email: row.email || "",
-    phone: row.phone || "",
-    wheelchairAccess: row.wheelchair_access || false,
-    signLanguage: row.sign_language || false,
-    audioDescription: row.audio_description || false,
-    status: row.status || "published",
-  }));
-
-  return events;
-}
+    if (error || !data) {
+      console.error("[Festivals] Supabase events error:", error?.message);
+      return [];
+    }
+
+    return data as FestivalRow[];
+  },
+};
 
 // Legacy compatibility — getSheetData for any generic table
 export async function getSheetData(tabName: string): Promise<any[]> {
   if (tabName === "Festivals") {
-    return getSheetEvents();
+    return fetchEvents();
   }
   if (tabName === "Site_Settings") {
     const settings = await getSiteSettings();
@@ -57,6 +57,8 @@ export interface MusicTradition {
   category: TraditionCategory;
   sacred: boolean;
   regions?: string[];
+  // Year UNESCO inscribed the tradition on its intangible heritage lists
+  unesco_year?: number;
   description: string;
 }
 
@@ -70,6 +72,7 @@ export const MUSIC_TRADITIONS: Record<string, MusicTradition> = {
     category: TraditionCategory.ROOTED,
     sacred: true,
     regions: ['marrakech-safi', 'casablanca-settat', 'rabat-sale-kenitra'],
+    unesco_year: 2019,
     description: 'Spiritual-musical tradition of sub-Saharan heritage, centered on trance ceremony (lila)'
   },
   andalusi: {
@@ -88,6 +91,7 @@ export const MUSIC_TRADITIONS: Record<string, MusicTradition> = {
     category: TraditionCategory.ROOTED,
     sacred: false,
     regions: ['fes-meknes', 'marrakech-safi'],
+    unesco_year: 2023,
     description: 'Moroccan sung poetry tradition in colloquial Arabic'
   },
   ahwach: {
@@ -370,6 +374,8 @@ export interface EventTiming {
   date_precision: DatePrecision;
   islamic_month?: number;
   islamic_day?: number;
+  duration_days?: number;
+  date_uncertainty_days?: number; // ± days around projected lunar dates
   season?: Season;
   recurrence_notes?: string;
 }
@@ -406,6 +412,23 @@ export type VenueType =
   | 'sanctuary'
   | 'other';
 
+// How closely coordinates pin down where an event happens
+export enum CoordinatePrecision {
+  EXACT = 'exact',       // The venue or site itself
+  CITY = 'city',         // A city centre from CITY_COORDINATES
+  UNKNOWN = 'unknown'
+}
+
+export interface EventCoordinates {
+  latitude: number;
+  longitude: number;
+  precision: CoordinatePrecision;
+  // Region whose polygon contains the point (geolocation.ts), null when it
+  // falls in none; region_mismatch when that is not the declared region
+  derived_region: string | null;
+  region_mismatch: boolean;
+}
+
 export interface EventLocation {
   location_type: LocationType;
   region: string;
@@ -417,11 +440,7 @@ export interface EventLocation {
   venue_type?: VenueType;
   area_description?: string;
   moving_pattern?: string;
-  coordinates?: {
-    latitude: number;
-    longitude: number;
-    precision: DatePrecision;
-  };
+  coordinates?: EventCoordinates;
 }
 
 // Morocco's 12 administrative regions
@@ -444,6 +463,9 @@ export const REGIONS = [
 // EVENT STATUS
 // =============================================================================
 
+// The one status vocabulary for records, the API and the curated events.
+// Allowed transitions are in lifecycle.ts
+
 export enum EventStatus {
   CONFIRMED = 'confirmed',
   ANNOUNCED = 'announced',
@@ -451,7 +473,8 @@ export enum EventStatus {
   POSTPONED = 'postponed',
   CANCELLED = 'cancelled',
   DORMANT = 'dormant',
-  HISTORICAL = 'historical'
+  HISTORICAL = 'historical',
+  ARCHIVED = 'archived'
 }
 
 export const EventStatusLabels: Record<EventStatus, string> = {
@@ -461,5 +484,6 @@ export const EventStatusLabels: Record<EventStatus, string> = {
   [EventStatus.POSTPONED]: 'Postponed',
   [EventStatus.CANCELLED]: 'Cancelled',
   [EventStatus.DORMANT]: 'Dormant',
-  [EventStatus.HISTORICAL]: 'Historical'
+  [EventStatus.HISTORICAL]: 'Historical',
+  [EventStatus.ARCHIVED]: 'Archived'
 };
@@ -0,0 +1,186 @@
+/**
+ * Text Analysis
+ *
+ * Language-aware token analysis for the search index (search-index.ts).
+ * Event records carry titles and descriptions in English, French, Spanish
+ * and Arabic, so:
+ *
+ * - every text is lowercased and folded (Latin accents, Arabic diacritics,
+ *   alef variants, ta marbuta, alef maqsura)
+ * - French and Spanish fields get a light stemmer (plurals, gender)
+ * - Arabic fields drop the article and clitic prefixes
+ * - every token has a consonant skeleton that is the same for an Arabic word
+ *   and its Latin transliterations ("كناوة", "gnawa" and "gnaoua" all give
+ *   "knw"), which lets a query cross scripts
+ */
+
+import type { Lang } from "./repository";
+
+// ============================================================================
+// FOLDING
+// ============================================================================
+
+// Harakat, tanween, shadda, sukun, dagger alef and tatweel
+const ARABIC_MARKS = /[\u064B-\u065F\u0670\u0640]/g;
+
+/** Normalize Arabic spelling variants that readers treat as the same word. */
+export function normalizeArabic(text: string): string {
+  return text
+    .replace(ARABIC_MARKS, "")
+    .replace(/[آأإٱ]/g, "ا")
+    .replace(/ة/g, "ه")
+    .replace(/ى/g, "ي")
+    .replace(/ؤ/g, "و")
+    .replace(/ئ/g, "ي");
+}
+
+/** Lowercase and strip Latin diacritics and Arabic variants: "Fès" → "fes". */
+export function foldText(text: string): string {
+  return normalizeArabic(
+    text
+      .toLowerCase()
+      .normalize("NFD")
+      .replace(/[\u0300-\u036f]/g, "")
+      .replace(/œ/g, "oe")
+      .replace(/æ/g, "ae")
+  );
+}
+
+export function tokenize(text: string | null | undefined): string[] {
+  if (!text) return [];
+  return foldText(text).split(/[^\p{L}\p{N}]+/u).filter(Boolean);
+}
+
+const ARABIC = /[\u0600-\u06FF]/;
+
+export function isArabic(token: string): boolean {
+  return ARABIC.test(token);
+}
+
+// ============================================================================
+// STEMMING
+// ============================================================================
+
+/** Light French stemmer: plurals, feminine -e, "-aux" → "-al". */
+export function stemFrench(token: string): string {
+  let word = token;
+  if (word.length > 5 && word.endsWith("aux")) return word.slice(0, -3) + "al";
+  if (word.length > 3 && /[sx]$/.test(word)) word = word.slice(0, -1);
+  if (word.length > 4 && word.endsWith("e")) word = word.slice(0, -1);
+  // "traditionnell" → "traditionel"
+  if (word.length > 4 && /([bcdfglmnprst])\1$/.test(word)) word = word.slice(0, -1);
+  return word;
+}
+
+/** Light Spanish stemmer: plurals and gender endings. */
+export function stemSpanish(token: string): string {
+  let word = token;
+  if (word.length > 5 && word.endsWith("ces")) return word.slice(0, -3) + "z";
+  if (word.length > 4 && /[^aeiou]es$/.test(word)) word = word.slice(0, -2);
+  else if (word.length > 3 && word.endsWith("s")) word = word.slice(0, -1);
+  if (word.length > 4 && /[aoe]$/.test(word)) word = word.slice(0, -1);
+  return word;
+}
+
+const ARABIC_PREFIXES = ["وال", "بال", "كال", "فال", "لل", "ال"];
+const ARABIC_SUFFIXES = ["ات", "ون", "ين"];
+
+/** Light Arabic stemmer: article, clitic prefixes and plural suffixes. */
+export function stemArabic(token: string): string {
+  let word = token;
+  for (const prefix of ARABIC_PREFIXES) {
+    if (word.startsWith(prefix) && word.length - prefix.length >= 3) {
+      word = word.slice(prefix.length);
+      break;
+    }
+  }
+  for (const suffix of ARABIC_SUFFIXES) {
+    if (word.endsWith(suffix) && word.length - suffix.length >= 3) {
+      word = word.slice(0, -suffix.length);
+      break;
+    }
+  }
+  return word;
+}
+
+export function stem(token: string, lang: Lang): string {
+  switch (lang) {
+    case "fr":
+      return stemFrench(token);
+    case "es":
+      return stemSpanish(token);
+    case "ar":
+      return stemArabic(token);
+    default:
+      return token;
+  }
+}
+
+/** Tokens of a text in a given language, stemmed. */
+export function analyze(text: string | null | undefined, lang: Lang): string[] {
+  return tokenize(text).map((token) => stem(token, lang));
+}
+
+// ============================================================================
+// TRANSLITERATION
+// ============================================================================
+
+// Arabic letters as the consonants a Latin transliteration would use. Long
+// vowels (ا ي), ع, ء and a final ه (ta marbuta) leave no trace; ك ق گ ڭ share
+// one class because Moroccan spelling writes the g sound with any of them.
+const ARABIC_CONSONANTS: Record<string, string> = {
+  "ب": "b",
+  "ت": "t",
+  "ث": "t",
+  "ج": "j",
+  "ح": "h",
+  "خ": "kh",
+  "د": "d",
+  "ذ": "d",
+  "ر": "r",
+  "ز": "z",
+  "س": "s",
+  "ش": "sh",
+  "ص": "s",
+  "ض": "d",
+  "ط": "t",
+  "ظ": "z",
+  "غ": "gh",
+  "ف": "f",
+  "ق": "k",
+  "ك": "k",
+  "گ": "k",
+  "ڭ": "k",
+  "ل": "l",
+  "م": "m",
+  "ن": "n",
+  "ه": "h",
+  "و": "w",
+  "ڤ": "v",
+  "پ": "p",
+};
+
+function arabicSkeleton(token: string): string {
+  const word = stemArabic(token).replace(/ه$/, "");
+  return [...word].map((letter) => ARABIC_CONSONANTS[letter] ?? "").join("");
+}
+
+function latinSkeleton(token: string): string {
+  return token
+    .replace(/ou/g, "w")
+    .replace(/ch|sh/g, "sh")
+    .replace(/dj/g, "j")
+    .replace(/[gq]/g, "k")
+    .replace(/c(?!h)/g, "k")
+    .replace(/x/g, "ks")
+    .replace(/[aeiouy]/g, "");
+}
+
+/**
+ * Consonant skeleton shared by an Arabic word and its Latin spellings:
+ * "مراكش" and "marrakech" both give "mrksh". Doubled letters collapse.
+ */
+export function consonantSkeleton(token: string): string {
+  const skeleton = isArabic(token) ? arabicSkeleton(token) : latinSkeleton(token);
+  return skeleton.replace(/(.)\1+/g, "$1");
+}
@@ -0,0 +1,202 @@
+/**
+ * Tradition Tagger
+ *
+ * Maps an event's free-text tags, titles and descriptions (English, French,
+ * Spanish and Arabic) and its artists to MUSIC_TRADITIONS ids, each with a
+ * confidence. A tag naming a tradition is strong evidence; a description
+ * mentioning it in passing is weaker. Evidence from several places adds up
+ * (noisy-or), so "gnaoua" in the tags and كناوة in the Arabic description is
+ * more certain than either alone.
+ *
+ * Editors have the last word: a record's `traditions` column adds ids at
+ * full confidence and removes wrongly detected ones ("gnawa,-world").
+ */
+
+import { MUSIC_TRADITIONS } from "./taxonomy";
+import { foldText, isArabic, tokenize } from "./text-analysis";
+import { artistTraditions } from "./data/artists";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type TraditionSource = "editor" | "tag" | "title" | "artist" | "description";
+
+export interface TraditionTag {
+  // A MUSIC_TRADITIONS id
+  id: string;
+  // 0-1; 1 for editor overrides
+  confidence: number;
+  // Where the evidence came from, strongest first
+  sources: TraditionSource[];
+}
+
+export interface TaggerInput {
+  tags: string[];
+  titles: string[];
+  descriptions: (string | null | undefined)[];
+  artists: string[];
+  // Editor override, comma-separated: "gnawa" adds, "-world" removes
+  override?: string | null;
+}
+
+// How much one mention in each place says about the event
+const SOURCE_CONFIDENCE: Record<Exclude<TraditionSource, "editor">, number> = {
+  tag: 0.9,
+  title: 0.8,
+  artist: 0.75,
+  description: 0.5,
+};
+
+// Tags below this are dropped
+export const MIN_TRADITION_CONFIDENCE = 0.5;
+
+// Spellings of each tradition in any language, matched as whole words after
+// folding. Generic words ("world", "popular", العالم) are left out on purpose:
+// they name too many things to be evidence.
+const TRADITION_SPELLINGS: Record<string, string[]> = {
+  gnawa: ["gnawa", "gnaoua", "gnaouas", "gnawi", "gnaoui", "كناوة", "ڭناوة"],
+  andalusi: [
+    "andalusi", "andalusian", "andalou", "andalouse", "al ala", "tarab al ala", "nouba", "nawba",
+    "الموسيقى الأندلسية", "طرب الآلة",
+  ],
+  malhun: ["malhun", "malhoun", "melhoun", "melhun", "الملحون"],
+  ahwach: ["ahwach", "ahouach", "أحواش", "ⴰⵀⵡⴰⵛ"],
+  ahidous: ["ahidous", "ahidouss", "أحيدوس", "ⴰⵃⵉⴷⵓⵙ"],
+  rways: ["rways", "rwais", "rrways", "raiss", "الروايس", "ⵔⵡⴰⵢⵙ"],
+  reggada: ["reggada", "regada", "الركادة"],
+  issawa: ["issawa", "aissawa", "aissaoua", "issaoua", "عيساوة"],
+  hamadcha: ["hamadcha", "hmadcha", "حمادشة"],
+  aita: ["aita", "aitta", "chikhat", "cheikhat", "العيطة"],
+  dakka: ["dakka marrakchia", "deqqa", "الدقة المراكشية"],
+  hassani: ["hassani", "hassaniya", "hassania", "الحساني", "الحسانية"],
+  sufi: ["sufi", "soufi", "sufism", "soufisme", "sufismo", "samaa", "madih", "صوفي", "الصوفية", "السماع"],
+  chaabi: ["chaabi"],
+  "rai-ma": ["rai"],
+  fusion: ["fusion", "gnawa jazz", "gnaoua jazz", "ethno jazz"],
+  nayda: ["nayda", "نايضة"],
+  "rap-ma": ["rap", "hip hop", "الراب"],
+  jazz: ["jazz", "الجاز"],
+  electronic: ["electronic", "electro", "electronique", "electronica", "techno", "house music", "dj"],
+  rock: ["rock", "metal"],
+  "classical-western": [
+    "classical music", "musique classique", "musica clasica", "orchestra", "orchestre",
+    "symphonic", "symphonique", "philharmonic", "opera",
+  ],
+  "pop-intl": ["pop"],
+  world: [
+    "world music", "musiques du monde", "musique du monde", "musica del mundo",
+    "musicas del mundo", "موسيقى العالم",
+  ],
+  reggae: ["reggae"],
+  rnb: ["r b", "rnb", "rhythm and blues", "soul"],
+  blues: ["blues", "البلوز"],
+  "desert-blues": ["desert blues", "desert music", "blues du desert", "tishoumaren", "assouf", "tuareg", "touareg"],
+};
+
+// ============================================================================
+// MATCHING
+// ============================================================================
+
+// Folded phrase → tradition ids it names
+let _phrases: Map<string, string[]> | null = null;
+
+function phrases(): Map<string, string[]> {
+  if (_phrases) return _phrases;
+  _phrases = new Map();
+  for (const [id, spellings] of Object.entries(TRADITION_SPELLINGS)) {
+    for (const spelling of spellings) {
+      const phrase = tokenize(spelling).join(" ");
+      if (!phrase) continue;
+      const ids = _phrases.get(phrase) || [];
+      if (!ids.includes(id)) _phrases.set(phrase, [...ids, id]);
+    }
+  }
+  return _phrases;
+}
+
+// Arabic prefixes written onto the word: و (and), ب (with), ل (for), ف
+const ARABIC_CLITIC = /^[وبلف](?=ال)/;
+
+/** Tradition ids a text mentions, matching whole words and phrases. */
+export function findTraditions(text: string | null | undefined): string[] {
+  const tokens = tokenize(text).map((t) => (isArabic(t) ? t.replace(ARABIC_CLITIC, "") : t));
+  if (tokens.length === 0) return [];
+
+  const padded = ` ${tokens.join(" ")} `;
+  const found = new Set<string>();
+  for (const [phrase, ids] of phrases()) {
+    if (padded.includes(` ${phrase} `)) ids.forEach((id) => found.add(id));
+  }
+  return [...found];
+}
+
+// Folded artist name → tradition ids
+let _artists: Map<string, string[]> | null = null;
+
+function artistsTraditions(name: string): string[] {
+  if (!_artists) {
+    _artists = new Map(
+      Object.entries(artistTraditions).map(([artist, ids]) => [tokenize(artist).join(" "), ids])
+    );
+  }
+  return _artists.get(tokenize(name).join(" ")) || [];
+}
+
+/** Read an override column: ids to add and ids to remove. */
+export function parseTraditionOverride(value: string | null | undefined): {
+  add: string[];
+  remove: string[];
+} {
+  const add: string[] = [];
+  const remove: string[] = [];
+  for (const raw of (value || "").split(",")) {
+    const entry = foldText(raw.trim());
+    if (!entry) continue;
+    if (entry.startsWith("-")) remove.push(entry.slice(1).trim());
+    else add.push(entry);
+  }
+  return { add, remove };
+}
+
+// ============================================================================
+// TAGGING
+// ============================================================================
+
+/**
+ * The traditions an event features, most certain first. Each source counts
+ * once per tradition however often it repeats the name, so a description in
+ * four languages is still one description.
+ */
+export function tagTraditions(input: TaggerInput): TraditionTag[] {
+  const evidence = new Map<string, Set<TraditionSource>>();
+  const note = (ids: string[], source: TraditionSource) => {
+    for (const id of ids) {
+      if (!evidence.has(id)) evidence.set(id, new Set());
+      evidence.get(id)!.add(source);
+    }
+  };
+
+  input.tags.forEach((tag) => note(findTraditions(tag), "tag"));
+  input.titles.forEach((title) => note(findTraditions(title), "title"));
+  input.artists.forEach((artist) => note(artistsTraditions(artist), "artist"));
+  input.descriptions.forEach((text) => note(findTraditions(text), "description"));
+
+  const tags: TraditionTag[] = [];
+  for (const [id, sources] of evidence) {
+    const ordered = (Object.keys(SOURCE_CONFIDENCE) as (keyof typeof SOURCE_CONFIDENCE)[]).filter(
+      (s) => sources.has(s)
+    );
+    const doubt = ordered.reduce((p, s) => p * (1 - SOURCE_CONFIDENCE[s]), 1);
+    const confidence = Math.round((1 - doubt) * 100) / 100;
+    if (confidence >= MIN_TRADITION_CONFIDENCE) tags.push({ id, confidence, sources: ordered });
+  }
+
+  const { add, remove } = parseTraditionOverride(input.override);
+  const result = tags.filter((t) => !remove.includes(t.id) && !add.includes(t.id));
+  for (const id of add) {
+    if (MUSIC_TRADITIONS[id]) result.push({ id, confidence: 1, sources: ["editor"] });
+  }
+
+  return result.sort((a, b) => b.confidence - a.confidence || a.id.localeCompare(b.id));
+}
@@ -0,0 +1,389 @@
+/**
+ * Festival Record Validation
+ *
+ * Checks raw festival records before they reach the mapper, which would
+ * otherwise coerce bad values silently (missing coordinates become 0,0,
+ * missing dates become ""). Used by the `lint:data` command.
+ */
+
+import { MUSIC_TRADITIONS, REGIONS, TemporalType } from "./taxonomy";
+import { MOROCCO_BOUNDS } from "./geo";
+import { checkLocation } from "./geolocation";
+import { resolvePlace } from "./gazetteer";
+import type { FestivalRow, SlugHistoryEntry } from "./repository";
+import { classifyEvent, EVENT_CATEGORIES } from "./classification";
+import { checkMinimumWeight, isCulturalWeight } from "./cultural-weight";
+import { checkStatusHistory, EVENT_STATUSES, isEventStatus } from "./lifecycle";
+import { checkPricing } from "./pricing";
+import { checkAccessibility } from "./accessibility";
+import { parseTraditionOverride } from "./tradition-tagger";
+import type { SeriesRow } from "./series";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface RecordValidation {
+  table: "festivals" | "slug-history" | "series";
+  index: number;
+  id: string;
+  errors: string[];
+}
+
+// Suspicious but not blocking: reported, and the lint still passes
+export interface RecordWarning {
+  table: RecordValidation["table"];
+  index: number;
+  id: string;
+  warnings: string[];
+}
+
+export interface ValidationReport {
+  checked: number;
+  invalid: RecordValidation[];
+  warned: RecordWarning[];
+}
+
+// Companion tables checked against the festival records
+export interface RelatedTables {
+  slugHistory?: SlugHistoryEntry[];
+  series?: SeriesRow[];
+}
+
+// ============================================================================
+// FIELD CHECKS
+// ============================================================================
+
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}$/;
+const ID_PATTERN = /^[a-z0-9]+(?:-[a-z0-9]+)*$/;
+
+const REGION_SLUGS = new Set(REGIONS.map((r) => r.slug));
+const TEMPORAL_TYPES = new Set<string>(Object.values(TemporalType));
+const SEASONS = ["spring", "summer", "autumn", "winter"];
+
+export function isIsoDate(value: unknown): value is string {
+  if (typeof value !== "string" || !ISO_DATE.test(value)) return false;
+  const [y, m, d] = value.split("-").map(Number);
+  const date = new Date(Date.UTC(y, m - 1, d));
+  return (
+    date.getUTCFullYear() === y &&
+    date.getUTCMonth() === m - 1 &&
+    date.getUTCDate() === d
+  );
+}
+
+export function isHttpUrl(value: unknown): boolean {
+  if (typeof value !== "string") return false;
+  try {
+    const url = new URL(value);
+    return url.protocol === "http:" || url.protocol === "https:";
+  } catch {
+    return false;
+  }
+}
+
+export function isInMorocco(lat: number, lng: number): boolean {
+  const [[south, west], [north, east]] = MOROCCO_BOUNDS;
+  return lat >= south && lat <= north && lng >= west && lng <= east;
+}
+
+function isNumber(value: unknown): value is number {
+  return typeof value === "number" && !isNaN(value);
+}
+
+function isInRange(value: unknown, min: number, max: number): boolean {
+  return isNumber(value) && Number.isInteger(value) && value >= min && value <= max;
+}
+
+// ============================================================================
+// VALIDATION
+// ============================================================================
+
+export function validateRow(row: FestivalRow): string[] {
+  const errors: string[] = [];
+
+  if (!row.id) {
+    errors.push("id is missing");
+  } else if (!ID_PATTERN.test(row.id)) {
+    errors.push(`id "${row.id}" must be lowercase words joined by hyphens`);
+  }
+
+  if (!row.slug) {
+    errors.push("slug is missing");
+  } else if (!ID_PATTERN.test(row.slug)) {
+    errors.push(`slug "${row.slug}" must be lowercase words joined by hyphens`);
+  }
+
+  if (!row.title_en) {
+    errors.push("title_en is missing");
+  }
+
+  const lunar = row.temporal_type === TemporalType.LUNAR;
+  if (row.temporal_type && !TEMPORAL_TYPES.has(row.temporal_type)) {
+    errors.push(`temporal_type "${row.temporal_type}" is not one of TemporalType`);
+  }
+  if (lunar) {
+    if (!isInRange(row.islamic_month, 1, 12)) {
+      errors.push(`islamic_month "${row.islamic_month ?? ""}" must be 1-12 for lunar records`);
+    }
+    if (row.islamic_day != null && !isInRange(row.islamic_day, 1, 30)) {
+      errors.push(`islamic_day "${row.islamic_day}" must be 1-30`);
+    }
+    if (row.duration_days != null && !isInRange(row.duration_days, 1, 60)) {
+      errors.push(`duration_days "${row.duration_days}" must be 1-60`);
+    }
+  }
+
+  const seasonal =
+    row.temporal_type === TemporalType.AGRICULTURAL ||
+    row.temporal_type === TemporalType.APPROXIMATE_ANNUAL;
+  if (row.season && !SEASONS.includes(row.season)) {
+    errors.push(`season "${row.season}" is not one of: ${SEASONS.join(", ")}`);
+  }
+  if (seasonal && !row.start_date && !row.season && !row.recurrence_notes) {
+    errors.push("undated seasonal records need a season or recurrence_notes");
+  }
+
+  // Lunar and seasonal records may rely on their recurrence rule alone
+  if (!((lunar || seasonal) && !row.start_date) && !isIsoDate(row.start_date)) {
+    errors.push(`start_date "${row.start_date ?? ""}" is not an ISO date (YYYY-MM-DD)`);
+  }
+  if (row.end_date != null && row.end_date !== "") {
+    if (!isIsoDate(row.end_date)) {
+      errors.push(`end_date "${row.end_date}" is not an ISO date (YYYY-MM-DD)`);
+    } else if (isIsoDate(row.start_date) && row.end_date < row.start_date) {
+      errors.push(`end_date ${row.end_date} is before start_date ${row.start_date}`);
+    }
+  }
+
+  if (!REGION_SLUGS.has(row.region)) {
+    errors.push(`region "${row.region ?? ""}" is not one of REGIONS`);
+  }
+
+  if (!row.city) {
+    errors.push("city is missing");
+  } else if (!resolvePlace(row.city)) {
+    errors.push(`city "${row.city}" is not in the gazetteer (data/places.ts)`);
+  }
+
+  if (!EVENT_CATEGORIES.includes(row.category)) {
+    errors.push(
+      `category "${row.category ?? ""}" is not one of: ${EVENT_CATEGORIES.join(", ")}`
+    );
+  }
+
+  if (!isEventStatus(row.status)) {
+    errors.push(`status "${row.status ?? ""}" is not one of: ${EVENT_STATUSES.join(", ")}`);
+  } else if (row.status_history?.length) {
+    errors.push(...checkStatusHistory(row.status_history, row.status));
+  }
+
+  if (row.cultural_weight != null) {
+    if (!isCulturalWeight(row.cultural_weight)) {
+      errors.push(`cultural_weight ${row.cultural_weight} is not a whole number from 1 to 5`);
+    } else if (!row.weight_rationale?.trim()) {
+      errors.push("cultural_weight is set without a weight_rationale");
+    }
+  }
+
+  errors.push(...checkPricing(row.price_currency, row.price_min, row.price_max, row.price_tiers));
+  errors.push(...checkAccessibility(row));
+
+  const override = parseTraditionOverride(row.traditions);
+  for (const id of [...override.add, ...override.remove]) {
+    if (!MUSIC_TRADITIONS[id]) {
+      errors.push(`traditions: "${id}" is not one of MUSIC_TRADITIONS`);
+    }
+  }
+
+  if (!isNumber(row.lat) || !isNumber(row.lng)) {
+    errors.push("lat/lng are missing or not numbers");
+  } else if (!isInMorocco(row.lat, row.lng)) {
+    errors.push(`coordinates ${row.lat},${row.lng} fall outside MOROCCO_BOUNDS`);
+  }
+
+  for (const field of ["website", "image"] as const) {
+    const value = row[field];
+    if (value != null && value !== "" && !isHttpUrl(value)) {
+      errors.push(`${field} "${value}" is not a well-formed http(s) URL`);
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * Checks that need judgement: coordinates that fall in another region's
+ * polygon than the declared region (the polygons are approximate, so this
+ * may be the polygon's fault), a region other than the city's, and an
+ * editor's cultural weight below the minimum for the event's derived type
+ * (proposed weights are raised to it), and wheelchair access claimed without
+ * step-free access or on sand.
+ */
+export function warnRow(row: FestivalRow): string[] {
+  const warnings: string[] = [];
+
+  const place = resolvePlace(row.city);
+  if (place && REGION_SLUGS.has(row.region) && place.region !== row.region) {
+    warnings.push(`region ${row.region} differs from ${place.name_en}'s region ${place.region}`);
+  }
+
+  if (isCulturalWeight(row.cultural_weight)) {
+    const type = classifyEvent({
+      category: row.category,
+      title: row.title_en || "",
+      tags: (row.tags || "").split(",").map((t) => t.trim()).filter(Boolean),
+      temporal_type: row.temporal_type,
+    });
+    const weight = checkMinimumWeight(type, row.cultural_weight);
+    if (weight) warnings.push(weight);
+  }
+
+  if (row.wheelchair_access && row.step_free_access === false) {
+    warnings.push("wheelchair_access is set but step_free_access is false");
+  } else if (row.wheelchair_access && row.venue_surface === "sand") {
+    warnings.push("wheelchair_access is set on a sand venue_surface");
+  }
+
+  if (isNumber(row.lat) && isNumber(row.lng) && REGION_SLUGS.has(row.region)) {
+    const location = checkLocation(row.lat, row.lng, row.region);
+    if (location.region_mismatch) {
+      warnings.push(
+        `coordinates ${row.lat},${row.lng} fall in ${location.derived_regions.join(", ")}, ` +
+          `not the declared region ${row.region}`
+      );
+    }
+  }
+
+  return warnings;
+}
+
+export function validateRows(
+  rows: FestivalRow[],
+  tables: RelatedTables = {}
+): ValidationReport {
+  const { slugHistory: history = [], series = [] } = tables;
+  const seriesIds = new Set(series.map((s) => s.id));
+  const invalid: RecordValidation[] = [];
+  const warned: RecordWarning[] = [];
+  const seenIds = new Map<string, number>();
+  const seenSlugs = new Map<string, number>();
+
+  rows.forEach((row, index) => {
+    const errors = validateRow(row);
+
+    if (row.id) {
+      const first = seenIds.get(row.id);
+      if (first !== undefined) {
+        errors.push(`id "${row.id}" duplicates record ${first + 1}`);
+      } else {
+        seenIds.set(row.id, index);
+      }
+    }
+
+    if (row.series_id && !seriesIds.has(row.series_id)) {
+      errors.push(`series_id "${row.series_id}" matches no series`);
+    }
+
+    if (row.slug) {
+      const first = seenSlugs.get(row.slug);
+      if (first !== undefined) {
+        errors.push(`slug "${row.slug}" collides with record ${first + 1}`);
+      } else {
+        seenSlugs.set(row.slug, index);
+      }
+    }
+
+    if (errors.length > 0) {
+      invalid.push({ table: "festivals", index, id: row.id || "(no id)", errors });
+    }
+
+    const warnings = warnRow(row);
+    if (warnings.length > 0) {
+      warned.push({ table: "festivals", index, id: row.id || "(no id)", warnings });
+    }
+  });
+
+  history.forEach((entry, index) => {
+    const errors: string[] = [];
+    const owner = seenSlugs.get(entry.slug);
+
+    if (!seenIds.has(entry.event_id)) {
+      errors.push(`event_id "${entry.event_id}" matches no record`);
+    }
+    if (owner !== undefined && rows[owner].id !== entry.event_id) {
+      errors.push(`slug is live for ${rows[owner].id} (record ${owner + 1})`);
+    }
+    if (!isIsoDate(entry.retired_at)) {
+      errors.push(`retired_at "${entry.retired_at}" is not an ISO date (YYYY-MM-DD)`);
+    }
+
+    if (errors.length > 0) {
+      invalid.push({ table: "slug-history", index, id: entry.slug, errors });
+    }
+  });
+
+  series.forEach((entry, index) => {
+    const errors: string[] = [];
+    const recordedYears = new Set(
+      rows
+        .filter((r) => r.series_id === entry.id)
+        .map((r) => (r.start_date || "").slice(0, 4))
+    );
+
+    for (const edition of entry.past_editions) {
+      const label = `past edition ${edition.year}`;
+      if (!isIsoDate(edition.start_date)) {
+        errors.push(`${label}: start_date "${edition.start_date}" is not an ISO date`);
+      } else if (edition.start_date.slice(0, 4) !== String(edition.year)) {
+        errors.push(`${label}: start_date ${edition.start_date} is in another year`);
+      }
+      if (edition.end_date != null && !isIsoDate(edition.end_date)) {
+        errors.push(`${label}: end_date "${edition.end_date}" is not an ISO date`);
+      } else if (edition.end_date && edition.end_date < edition.start_date) {
+        errors.push(`${label}: end_date is before start_date`);
+      }
+      if (recordedYears.has(String(edition.year))) {
+        errors.push(`${label} duplicates a festival record`);
+      }
+    }
+
+    if (errors.length > 0) {
+      invalid.push({ table: "series", index, id: entry.id, errors });
+    }
+  });
+
+  return {
+    checked: rows.length + history.length + series.length,
+    invalid,
+    warned,
+  };
+}
+
+export function formatReport(report: ValidationReport): string {
+  const lines: string[] = [];
+
+  for (const record of report.invalid) {
+    const where =
+      record.table === "festivals"
+        ? `record ${record.index + 1}`
+        : `${record.table} entry ${record.index + 1}`;
+    lines.push(`✗ ${record.id} (${where})`);
+    for (const error of record.errors) {
+      lines.push(`    - ${error}`);
+    }
+  }
+
+  for (const record of report.warned) {
+    lines.push(`! ${record.id} (record ${record.index + 1})`);
+    for (const warning of record.warnings) {
+      lines.push(`    - ${warning}`);
+    }
+  }
+
+  lines.push(
+    `${report.checked} records checked, ${report.invalid.length} with errors` +
+      (report.warned.length > 0 ? `, ${report.warned.length} with warnings` : "")
+  );
+  return lines.join("\n");
+}
@@ -1,11 +1,10 @@
 import type { APIRoute } from 'astro';
-import { getSheetEvents } from '../lib/supabase';
-import { getCities, getTraditions } from '../lib/api';
+import { fetchEvents, getUniqueCities, getUniqueTraditions } from '../lib/repository';
 
 export const GET: APIRoute = async () => {
-  const events = await getSheetEvents();
-  const cities = getCities();
-  const traditions = getTraditions();
+  const events = await fetchEvents();
+  const cities = getUniqueCities(events);
+  const traditions = getUniqueTraditions(events);
 
   const BASE = 'https://festivalsinmorocco.com';
   const today = new Date().toISOString().split('T')[0];
@@ -9,9 +9,18 @@
 // ENUMS
 // ============================================================================
 
-export type EventType = 'festival' | 'concert' | 'showcase' | 'ritual' | 'conference';
-
-export type EventStatus = 'announced' | 'confirmed' | 'cancelled' | 'postponed' | 'archived';
+// The values of src/lib/taxonomy.ts EventType and EventStatus
+export type EventType = 'festival' | 'concert' | 'moussem' | 'lila' | 'showcase' | 'gathering';
+
+export type EventStatus =
+  | 'tentative'
+  | 'announced'
+  | 'confirmed'
+  | 'postponed'
+  | 'cancelled'
+  | 'historical'
+  | 'dormant'
+  | 'archived';
 
 export type SourceType =
   | 'official_website'
@@ -22,6 +31,9 @@ export type SourceType =
   | 'scrape'
   | 'csv_import';
 
+// The values of src/lib/pricing.ts CURRENCIES; amounts are stored in MAD by default
+export type Currency = 'MAD' | 'EUR' | 'USD' | 'GBP';
+
 // ============================================================================
 // ENTITIES
 // ============================================================================
@@ -118,7 +130,7 @@ export interface EventTicketUrl {
   provider: string | null;
   price_min: number | null;
   price_max: number | null;
-  currency: string;
+  currency: Currency;
   is_official: boolean;
   last_checked_at: string | null;
 }
@@ -213,6 +225,8 @@ export interface PaginatedResponse<T> {
 
 export interface FacetValue {
   value: string;
+  // Display name, when the value is a slug or code
+  label?: string;
   count: number;
 }
 
@@ -302,14 +316,28 @@ export interface SearchParams {
   city?: string;
   region?: string;
   genre?: string;
+  tradition?: string; // MUSIC_TRADITIONS id
   type?: EventType;
   status?: EventStatus;
+  category?: string; // source category: music, heritage, ...
   from?: string;
   to?: string;
+  happening?: 'now' | 'today' | 'weekend'; // in Africa/Casablanca
   verified?: boolean;
   page?: number;
   per_page?: number;
-  sort?: 'date' | 'relevance' | 'significance';
+  sort?: 'date' | 'relevance' | 'significance' | 'price' | 'distance';
+  fields?: string[];
+  near?: string; // "lat,lng" or a city slug
+  radius_km?: number;
+  bbox?: string; // "west,south,east,north"
+  currency?: Currency; // prices shown in it, MAD by default
+  price_max?: number; // cheapest ticket at most this, in currency
+  free?: boolean;
+  accessibility?: string[]; // features, all required: step_free, quiet_zone, ...
+  seating?: string; // none, limited, accessible
+  surface?: string; // indoor, paved, sand, cobbles, ...
+  accessibility_verified_since?: string;
 }
 
 export interface SearchDocument {